@@ -0,0 +1,6 @@
+import { NextRequest } from 'next/server';
+import { proxyToBackend, requirePermission } from '@/lib/bff';
+
+export async function POST(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/assignments/round-robin', authorize: requirePermission('assignments:manage') });
+}
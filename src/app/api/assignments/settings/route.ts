@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { proxyToBackend, requirePermission } from '@/lib/bff';
+
+export async function GET(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/assignments/settings' });
+}
+
+export async function PUT(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/assignments/settings', authorize: requirePermission('assignments:manage') });
+}
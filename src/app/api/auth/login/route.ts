@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getBackendUrl, SESSION_COOKIE, sessionCookieOptions, toSessionInfo } from '@/lib/session';
+
+const tokenResponseSchema = z.object({ access_token: z.string().min(1) });
+
+export async function POST(request: NextRequest) {
+  const credentials = await request.json().catch(() => null);
+  if (!credentials?.username || !credentials?.password) {
+    return NextResponse.json({ detail: 'Username and password are required' }, { status: 400 });
+  }
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(`${getBackendUrl(request.nextUrl.origin)}/admin/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ username: credentials.username, password: credentials.password }),
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error('Login request to backend failed:', error);
+    return NextResponse.json({ detail: 'Authentication service unavailable' }, { status: 502 });
+  }
+
+  if (!backendResponse.ok) {
+    return new NextResponse(await backendResponse.text(), {
+      status: backendResponse.status,
+      headers: { 'Content-Type': backendResponse.headers.get('Content-Type') || 'text/plain' },
+    });
+  }
+
+  const parsed = tokenResponseSchema.safeParse(await backendResponse.json().catch(() => null));
+  if (!parsed.success) {
+    console.error('Login response from backend has no access token');
+    return NextResponse.json({ detail: 'Invalid response from authentication service' }, { status: 502 });
+  }
+
+  const token = parsed.data.access_token;
+  const response = NextResponse.json(toSessionInfo(token), { headers: { 'Cache-Control': 'no-store' } });
+  response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(token));
+  return response;
+}
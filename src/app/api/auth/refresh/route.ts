@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getBackendUrl, SESSION_COOKIE, isSessionValid, sessionCookieOptions, toSessionInfo } from '@/lib/session';
+
+const tokenResponseSchema = z.object({ access_token: z.string().min(1) });
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!isSessionValid(token)) {
+    return NextResponse.json({ detail: 'Not authenticated' }, { status: 401 });
+  }
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(`${getBackendUrl(request.nextUrl.origin)}/admin/refresh`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error('Token refresh request to backend failed:', error);
+    return NextResponse.json({ detail: 'Authentication service unavailable' }, { status: 502 });
+  }
+
+  // Older backends have no refresh endpoint; the client falls back to asking for the password
+  if (backendResponse.status === 404 || backendResponse.status === 405) {
+    return NextResponse.json({ detail: 'Token refresh is not supported' }, { status: 501 });
+  }
+  if (!backendResponse.ok) {
+    return NextResponse.json({ detail: 'Token refresh failed' }, { status: backendResponse.status });
+  }
+
+  const parsed = tokenResponseSchema.safeParse(await backendResponse.json().catch(() => null));
+  if (!parsed.success) {
+    console.error('Token refresh response from backend has no access token');
+    return NextResponse.json({ detail: 'Invalid response from authentication service' }, { status: 502 });
+  }
+
+  const refreshed = parsed.data.access_token;
+  const response = NextResponse.json(toSessionInfo(refreshed), { headers: { 'Cache-Control': 'no-store' } });
+  response.cookies.set(SESSION_COOKIE, refreshed, sessionCookieOptions(refreshed));
+  return response;
+}
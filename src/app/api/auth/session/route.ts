@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, isSessionValid, toSessionInfo } from '@/lib/session';
+
+// Lets the client recover its claims after a reload without ever seeing the token
+export async function GET(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!isSessionValid(token)) {
+    return NextResponse.json({ detail: 'Not authenticated' }, { status: 401 });
+  }
+
+  return NextResponse.json(toSessionInfo(token), { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+import { proxyToBackend, requirePermission, RouteContext } from '@/lib/bff';
+
+export async function PUT(request: NextRequest, { params }: RouteContext<{ id: string }>) {
+  const { id } = await params;
+  return proxyToBackend(request, { path: `/admin/bookings/${encodeURIComponent(id)}/status`, authorize: requirePermission('bookings:edit') });
+}
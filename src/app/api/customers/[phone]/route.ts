@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+import { proxyToBackend, RouteContext } from '@/lib/bff';
+
+export async function GET(request: NextRequest, { params }: RouteContext<{ phone: string }>) {
+  const { phone } = await params;
+  return proxyToBackend(request, { path: `/admin/customers/${encodeURIComponent(phone)}` });
+}
@@ -0,0 +1,6 @@
+import { NextRequest } from 'next/server';
+import { normalizeList, proxyToBackend } from '@/lib/bff';
+
+export async function GET(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/customers', transform: normalizeList('customers') });
+}
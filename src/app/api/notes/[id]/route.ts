@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server';
+import { proxyToBackend, RouteContext } from '@/lib/bff';
+import { hasPermission, recordEditPermissions } from '@/lib/permissions';
+
+// The note's record type is only known to the backend, which checks it exactly;
+// read-only roles are turned away here already
+export async function PATCH(request: NextRequest, { params }: RouteContext<{ id: string }>) {
+  const { id } = await params;
+  return proxyToBackend(request, {
+    path: `/admin/notes/${encodeURIComponent(id)}`,
+    authorize: (role) => Object.values(recordEditPermissions).some((permission) => hasPermission(role, permission)),
+  });
+}
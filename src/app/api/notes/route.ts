@@ -0,0 +1,20 @@
+import { NextRequest } from 'next/server';
+import { normalizeList, proxyToBackend } from '@/lib/bff';
+import { hasPermission, recordEditPermissions } from '@/lib/permissions';
+import { AuditEntityType } from '@/lib/types';
+
+export async function GET(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/notes', transform: normalizeList('notes') });
+}
+
+// Adding a note needs edit access to the record it is on
+export async function POST(request: NextRequest) {
+  return proxyToBackend(request, {
+    path: '/admin/notes',
+    authorize: (role, body) => {
+      const entityType = (body as { entityType?: AuditEntityType } | null)?.entityType;
+      const permission = entityType ? recordEditPermissions[entityType] : undefined;
+      return !!permission && hasPermission(role, permission);
+    },
+  });
+}
@@ -1,9 +1,6 @@
-// This route is no longer needed as we're using the backend API directly
-// Kept for backwards compatibility if needed
-import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { normalizeList, proxyToBackend } from '@/lib/bff';
 
-export async function GET() {
-  return NextResponse.json({ 
-    message: 'This endpoint is deprecated. Use the backend API directly.' 
-  }, { status: 410 });
+export async function GET(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/car-requests', transform: normalizeList('requests') });
 }
@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server';
+import { normalizeList, proxyToBackend, requirePermission } from '@/lib/bff';
+
+export async function GET(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/service-centers', transform: normalizeList('service_centers') });
+}
+
+export async function POST(request: NextRequest) {
+  return proxyToBackend(request, { path: '/admin/service-centers', authorize: requirePermission('settings:manage') });
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import AuditLogTable from "@/components/audit/audit-log-table";
+
+export default function AuditPage() {
+  return (
+    <div>
+        <h1 className="text-2xl font-semibold text-primary mb-4">Audit Log</h1>
+        <AuditLogTable />
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useContext } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { BookingDetailSheet } from "@/components/bookings/booking-detail-sheet";
+import { BookingChangeContext } from "@/components/bookings/booking-change-context";
+
+export default function BookingDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+  const onBookingChange = useContext(BookingChangeContext);
+
+  return (
+    <BookingDetailSheet
+      bookingId={id}
+      open
+      onBookingChange={onBookingChange}
+      onOpenChange={(open) => {
+        if (!open) router.push("/dashboard/bookings");
+      }}
+    />
+  );
+}
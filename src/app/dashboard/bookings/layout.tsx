@@ -0,0 +1,53 @@
+'use client';
+
+import { useCallback, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Plus } from "lucide-react";
+import BookingsDataTable from "@/components/bookings/data-table";
+import { BookingFormDialog } from "@/components/bookings/booking-form-dialog";
+import { BookingChangeContext } from "@/components/bookings/booking-change-context";
+import { Button } from "@/components/ui/button";
+import { usePermissions } from "@/hooks/use-permissions";
+
+// The table lives in the layout so it keeps its page, filters and sorting
+// while the /dashboard/bookings/[id] detail drawer opens and closes over it.
+export default function BookingsLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const router = useRouter();
+  const { can } = usePermissions();
+  const [isCreating, setIsCreating] = useState(false);
+  // Bumped when a booking is created or the drawer changes one; refetches without resetting filters or the page
+  const [changeCount, setChangeCount] = useState(0);
+  const handleBookingChange = useCallback(() => setChangeCount((count) => count + 1), []);
+
+  return (
+    <div>
+        <div className="mb-4 flex items-center justify-between gap-2">
+          <h1 className="text-2xl font-semibold text-primary">Bookings</h1>
+          {can("bookings:edit") && (
+            <Button onClick={() => setIsCreating(true)}>
+              <Plus className="mr-1 h-4 w-4" />
+              New booking
+            </Button>
+          )}
+        </div>
+        <BookingsDataTable
+          refreshToken={changeCount}
+          onRowClick={(booking) => router.push(`/dashboard/bookings/${booking._id}`)}
+        />
+        <BookingFormDialog
+          open={isCreating}
+          onOpenChange={setIsCreating}
+          onSaved={(booking) => {
+            setIsCreating(false);
+            handleBookingChange();
+            router.push(`/dashboard/bookings/${booking._id}`);
+          }}
+        />
+        <BookingChangeContext.Provider value={handleBookingChange}>{children}</BookingChangeContext.Provider>
+    </div>
+  );
+}
@@ -2,32 +2,37 @@
 
 import { Line, LineChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis, Legend } from "recharts";
 import { type Booking, type InsuranceRequest, type GeneralRequest } from "@/lib/types";
-import { format, subDays, eachDayOfInterval, startOfDay } from "date-fns";
+import { format, eachDayOfInterval, startOfDay } from "date-fns";
 
 interface CombinedTrendChartProps {
   bookings: Booking[];
   insuranceRequests: InsuranceRequest[];
   generalRequests: GeneralRequest[];
+  from: Date;
+  to: Date;
 }
 
 type DailyData = {
-  date: string; // "MMM dd"
+  day: string; // "yyyy-MM-dd", unique across years
+  label: string; // "MMM dd"
   totalBookings: number;
   totalInsurance: number;
   totalGeneral: number;
   totalAll: number;
 };
 
-export default function CombinedTrendChart({ bookings, insuranceRequests, generalRequests }: CombinedTrendChartProps) {
-  const endDate = startOfDay(new Date());
-  const startDate = startOfDay(subDays(endDate, 9)); // 10 days total including today
+type DailyCountKey = "totalBookings" | "totalInsurance" | "totalGeneral";
 
-  // 1. Create a map of all dates in the last 10 days, initialized to 0 counts
+// Every series is bucketed by creation day, bookings included (not their appointment
+// date), so the lines line up with the range the dashboard filters on
+export default function CombinedTrendChart({ bookings, insuranceRequests, generalRequests, from, to }: CombinedTrendChartProps) {
+  // 1. Create a map of all dates in the selected range, initialized to 0 counts
   const dateMap = new Map<string, DailyData>();
-  eachDayOfInterval({ start: startDate, end: endDate }).forEach(day => {
-    const dateKey = format(day, "MMM dd");
-    dateMap.set(dateKey, {
-      date: dateKey,
+  eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) }).forEach(day => {
+    const dayKey = format(day, "yyyy-MM-dd");
+    dateMap.set(dayKey, {
+      day: dayKey,
+      label: format(day, "MMM dd"),
       totalBookings: 0,
       totalInsurance: 0,
       totalGeneral: 0,
@@ -35,43 +40,21 @@ export default function CombinedTrendChart({ bookings, insuranceRequests, genera
     });
   });
 
-  // 2. Filter and aggregate bookings
-  bookings
-    .filter(b => startOfDay(new Date(b.date)) >= startDate)
-    .forEach(b => {
-      const dateKey = format(startOfDay(new Date(b.date)), "MMM dd");
-      if (dateMap.has(dateKey)) {
-        const dayData = dateMap.get(dateKey)!;
-        dayData.totalBookings += 1;
+  // 2. Count each record on the day it was created; records outside the range are skipped
+  const countByDay = (records: { createdAt: string }[], key: DailyCountKey) => {
+    records.forEach(record => {
+      const dayData = dateMap.get(format(new Date(record.createdAt), "yyyy-MM-dd"));
+      if (dayData) {
+        dayData[key] += 1;
         dayData.totalAll += 1;
       }
     });
+  };
+  countByDay(bookings, "totalBookings");
+  countByDay(insuranceRequests, "totalInsurance");
+  countByDay(generalRequests, "totalGeneral");
 
-  // 3. Filter and aggregate insurance requests
-  insuranceRequests
-    .filter(i => startOfDay(new Date(i.createdAt)) >= startDate)
-    .forEach(i => {
-      const dateKey = format(startOfDay(new Date(i.createdAt)), "MMM dd");
-      if (dateMap.has(dateKey)) {
-        const dayData = dateMap.get(dateKey)!;
-        dayData.totalInsurance += 1;
-        dayData.totalAll += 1;
-      }
-    });
-
-  // 4. Filter and aggregate general requests
-  generalRequests
-    .filter(g => startOfDay(new Date(g.createdAt)) >= startDate)
-    .forEach(g => {
-      const dateKey = format(startOfDay(new Date(g.createdAt)), "MMM dd");
-      if (dateMap.has(dateKey)) {
-        const dayData = dateMap.get(dateKey)!;
-        dayData.totalGeneral += 1;
-        dayData.totalAll += 1;
-      }
-    });
-
-  // 5. Convert map values to array
+  // 3. Convert map values to array
   const chartData = Array.from(dateMap.values());
 
   return (
@@ -79,7 +62,7 @@ export default function CombinedTrendChart({ bookings, insuranceRequests, genera
       <LineChart data={chartData}>
         <CartesianGrid strokeDasharray="3 3" vertical={false} />
         <XAxis
-          dataKey="date"
+          dataKey="label"
           stroke="#888888"
           fontSize={12}
           tickLine={false}
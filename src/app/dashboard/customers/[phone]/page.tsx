@@ -0,0 +1,10 @@
+'use client';
+
+import { useParams } from "next/navigation";
+import { CustomerProfile } from "@/components/customers/customer-profile";
+
+export default function CustomerProfilePage() {
+  const { phone } = useParams<{ phone: string }>();
+
+  return <CustomerProfile phone={decodeURIComponent(phone)} />;
+}
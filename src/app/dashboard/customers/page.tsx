@@ -3,28 +3,32 @@
 import { useEffect, useState } from 'react';
 import CustomerDataTable from "@/components/customers/data-table";
 import { Customer } from "@/lib/types";
-import { customersApi } from "@/lib/api";
+import { customersApi, isAbortError } from "@/lib/api";
 
 export default function CustomersPage() {
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchCustomers = async () => {
       try {
         setLoading(true);
-        const response = await customersApi.getAll();
+        const response = await customersApi.getAll({ signal: controller.signal });
+        if (isAbortError(response.error)) return;
         if (response.success && response.data) {
-          setCustomers(response.data.customers);
+          setCustomers(response.data.items);
         }
       } catch (error) {
         console.error("Failed to load customers", error);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) setLoading(false);
       }
     };
 
     fetchCustomers();
+    return () => controller.abort();
   }, []);
 
   return (
@@ -0,0 +1,12 @@
+'use client';
+
+import { FollowUpsDue } from "@/components/dashboard/follow-ups-due";
+
+export default function FollowUpsPage() {
+  return (
+    <div>
+        <h1 className="text-2xl font-semibold text-primary mb-4">Follow-ups</h1>
+        <FollowUpsDue />
+    </div>
+  );
+}
@@ -1,67 +1,29 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { insuranceRequestsApi } from "@/lib/api";
-import { InsuranceRequest } from "@/lib/types";
+import { useState } from "react";
 import InsuranceDataTable from "@/components/insurance-requests/data-table";
+import { RequestDetailSheet } from "@/components/request-detail-sheet";
+import { InsuranceRequest } from "@/lib/types";
 
 export default function InsuranceRequestsPage() {
-  const [insuranceRequests, setInsuranceRequests] = useState<InsuranceRequest[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    const fetchInsuranceRequests = async () => {
-      try {
-        setLoading(true);
-        console.log('🛡️ Fetching insurance requests from backend...');
-        
-        const response = await insuranceRequestsApi.getAll();
-        
-        if (response.success && response.data) {
-          setInsuranceRequests(response.data.requests || []);
-          console.log('✅ Insurance requests loaded:', response.data.requests?.length || 0);
-        } else {
-          console.error('❌ Failed to load insurance requests:', response.error);
-          setError(response.error || 'Failed to fetch insurance requests');
-        }
-      } catch (err) {
-        console.error('❌ Error fetching insurance requests:', err);
-        setError('Failed to fetch insurance requests. Please check your connection.');
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    fetchInsuranceRequests();
-  }, []);
-
-  if (loading) {
-    return (
-      <div>
-        <h1 className="text-2xl font-semibold text-primary mb-4">Insurance Requests</h1>
-        <div className="flex items-center justify-center h-64">
-          <div className="text-lg">Loading insurance requests...</div>
-        </div>
-      </div>
-    );
-  }
-
-  if (error) {
-    return (
-      <div>
-        <h1 className="text-2xl font-semibold text-primary mb-4">Insurance Requests</h1>
-        <div className="flex items-center justify-center h-64">
-          <div className="text-lg text-red-600">Error: {error}</div>
-        </div>
-      </div>
-    );
-  }
+  const [selected, setSelected] = useState<InsuranceRequest | null>(null);
+  // Bumped after a conversion or a new note so the table refetches without losing its filters
+  const [changeCount, setChangeCount] = useState(0);
 
   return (
     <div>
         <h1 className="text-2xl font-semibold text-primary mb-4">Insurance Requests</h1>
-        <InsuranceDataTable data={insuranceRequests} />
+        <InsuranceDataTable refreshToken={changeCount} onRowClick={setSelected} />
+        <RequestDetailSheet
+          request={selected && { entityType: "insurance_request", record: selected }}
+          editPermission="insurance:edit"
+          onOpenChange={(open) => !open && setSelected(null)}
+          onNoteAdded={() => setChangeCount((count) => count + 1)}
+          onConverted={(booking) => {
+            setSelected((current) => current && { ...current, status: "booking-confirmed", convertedBookingId: booking._id });
+            setChangeCount((count) => count + 1);
+          }}
+        />
     </div>
   );
 }
@@ -1,34 +1,20 @@
 "use client";
 
-import { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
-import { getAuthToken } from "@/lib/api";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar"; 
+import { SessionManager } from "@/components/session-manager";
+import { ValidationReport } from "@/components/validation-report";
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const router = useRouter();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-
-  useEffect(() => {
-    const token = getAuthToken();
-    if (!token) {
-      router.push("/login");
-    } else {
-      setIsAuthenticated(true);
-    }
-  }, [router]);
-
-  if (!isAuthenticated) {
-    return null; 
-  }
-
+  // middleware.ts guards the initial request; SessionManager handles a session that expires mid-visit
   return (
     <SidebarProvider>
+      <SessionManager />
+      <ValidationReport />
       {/* This component is now found in src/components/app-sidebar.tsx */}
       <AppSidebar />
       <SidebarInset>
@@ -43,4 +29,4 @@ export default function DashboardLayout({
       </SidebarInset>
     </SidebarProvider>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import BookingsDataTable from "@/components/bookings/data-table";
+import InsuranceDataTable from "@/components/insurance-requests/data-table";
+import RequestsDataTable from "@/components/requests/data-table";
+import { RequestDetailSheet } from "@/components/request-detail-sheet";
+import { ConvertibleRequest } from "@/components/bookings/convert-to-booking-dialog";
+import { RoundRobinSettings } from "@/components/round-robin-settings";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { usePermissions } from "@/hooks/use-permissions";
+
+// The same tables as their own pages, pre-filtered to records assigned to the signed-in agent
+export default function MyQueuePage() {
+  const router = useRouter();
+  const { can, isLoading } = usePermissions();
+  const [selected, setSelected] = useState<ConvertibleRequest | null>(null);
+  // Bumped after a round-robin run, a conversion or a new note so the tables refetch, keeping their filters
+  const [changeCount, setChangeCount] = useState(0);
+
+  const tabs = [
+    { value: "bookings", label: "Bookings", permission: "bookings:view" as const },
+    { value: "insurance", label: "Insurance", permission: "insurance:view" as const },
+    { value: "requests", label: "Requests", permission: "requests:view" as const },
+  ].filter((tab) => can(tab.permission));
+
+  return (
+    <div>
+        <div className="mb-4 flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <h1 className="text-2xl font-semibold text-primary">My Queue</h1>
+          {can("assignments:manage") && <RoundRobinSettings onAssigned={() => setChangeCount((count) => count + 1)} />}
+        </div>
+        {!isLoading && tabs.length > 0 && (
+          <Tabs defaultValue={tabs[0].value}>
+            <TabsList>
+              {tabs.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+              ))}
+            </TabsList>
+            <TabsContent value="bookings">
+              <BookingsDataTable
+                defaultAssigneeFilter="mine"
+                refreshToken={changeCount}
+                onRowClick={(booking) => router.push(`/dashboard/bookings/${booking._id}`)}
+              />
+            </TabsContent>
+            <TabsContent value="insurance">
+              <InsuranceDataTable
+                defaultAssigneeFilter="mine"
+                refreshToken={changeCount}
+                onRowClick={(record) => setSelected({ entityType: "insurance_request", record })}
+              />
+            </TabsContent>
+            <TabsContent value="requests">
+              <RequestsDataTable
+                defaultAssigneeFilter="mine"
+                refreshToken={changeCount}
+                onRowClick={(record) => setSelected({ entityType: "general_request", record })}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+        <RequestDetailSheet
+          request={selected}
+          editPermission={selected?.entityType === "insurance_request" ? "insurance:edit" : "requests:edit"}
+          onOpenChange={(open) => !open && setSelected(null)}
+          onNoteAdded={() => setChangeCount((count) => count + 1)}
+          onConverted={(booking) => {
+            setSelected((current) =>
+              current && ({
+                ...current,
+                record: { ...current.record, status: "booking-confirmed", convertedBookingId: booking._id },
+              } as ConvertibleRequest)
+            );
+            setChangeCount((count) => count + 1);
+          }}
+        />
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { dashboardApi, bookingsApi, insuranceRequestsApi, generalRequestsApi } from "@/lib/api";
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { dashboardApi, bookingsApi, insuranceRequestsApi, generalRequestsApi, fetchAllPages } from "@/lib/api";
 import { Booking, GeneralRequest, InsuranceRequest } from "@/lib/types";
 import { 
   Calendar, 
@@ -12,7 +12,10 @@ import {
   Users, 
   Clock, 
   CheckCircle, 
-  Activity 
+  Activity,
+  TrendingUp,
+  TrendingDown,
+  Timer
 } from "lucide-react";
 import RequestStatusChart from "@/components/dashboard/request-status-chart";
 import CombinedTrendChart from "@/app/dashboard/combined-trend-chart"; 
@@ -25,6 +28,23 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { DateRangePicker } from "@/components/dashboard/date-range-picker";
+import { FollowUpsDue } from "@/components/dashboard/follow-ups-due";
+import SlaComplianceChart from "@/components/dashboard/sla-compliance-chart";
+import CancellationReasonsChart from "@/components/dashboard/cancellation-reasons-chart";
+import { SlaSettings } from "@/components/sla-settings";
+import {
+  DashboardDateRange,
+  formatRangeLabel,
+  getPresetRange,
+  getPreviousPeriod,
+  isWithinRange,
+  percentChange,
+} from "@/lib/date-range";
+import { cn } from "@/lib/utils";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useSlaRules } from "@/hooks/use-sla-rules";
+import { getSlaState, isSlaBreach } from "@/lib/sla";
 
 interface DashboardStats {
   totalBookings: number;
@@ -58,93 +78,180 @@ const formatDate = (dateString: string) => {
   }
 };
 
+function PeriodDelta({ current, previous, lowerIsBetter = false }: { current: number; previous?: number; lowerIsBetter?: boolean }) {
+  if (previous === undefined) return null;
+  const change = percentChange(current, previous);
+  if (change === null) {
+    return <span className="text-xs text-muted-foreground">New vs previous period</span>;
+  }
+  const Icon = change < 0 ? TrendingDown : TrendingUp;
+  const improved = lowerIsBetter ? change <= 0 : change >= 0;
+  return (
+    <span className={cn("flex items-center gap-1 text-xs", improved ? "text-green-600" : "text-red-600")}>
+      <Icon className="h-3 w-3" />
+      {change > 0 ? '+' : ''}{change.toFixed(1)}% vs previous period
+    </span>
+  );
+}
+
 export default function DashboardPage() {
+  const [range, setRange] = useState<DashboardDateRange>(() => getPresetRange('30d'));
   const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [previousStats, setPreviousStats] = useState<DashboardStats | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [insuranceRequests, setInsuranceRequests] = useState<InsuranceRequest[]>([]);
   const [generalRequests, setGeneralRequests] = useState<GeneralRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { can } = usePermissions();
+  const slaRules = useSlaRules();
 
   useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
+
     const fetchDashboardData = async () => {
       try {
         setLoading(true);
+        setError(null);
         console.log('📊 Fetching dashboard data from backend...');
+
+        const previous = getPreviousPeriod(range);
+        // Every record in both periods: the charts and deltas are computed from these
+        const recordQuery = {
+          createdFrom: previous.from.toISOString(),
+          createdTo: range.to.toISOString(),
+        };
         
         // Fetch all data in parallel
-        const [statsResponse, bookingsResponse, insuranceResponse, requestsResponse] = await Promise.all([
-          dashboardApi.getStats(),
-          bookingsApi.getAll(),
-          insuranceRequestsApi.getAll(),
-          generalRequestsApi.getAll()
+        const [statsResponse, previousStatsResponse, bookingsResponse, insuranceResponse, requestsResponse] = await Promise.all([
+          dashboardApi.getStats({ from: range.from.toISOString(), to: range.to.toISOString() }, { signal }),
+          dashboardApi.getStats({ from: previous.from.toISOString(), to: previous.to.toISOString() }, { signal }),
+          fetchAllPages(bookingsApi.getAll, recordQuery, { signal }),
+          fetchAllPages(insuranceRequestsApi.getAll, recordQuery, { signal }),
+          fetchAllPages(generalRequestsApi.getAll, recordQuery, { signal })
         ]);
+        if (signal.aborted) return;
 
         if (statsResponse.success && statsResponse.data) setStats(statsResponse.data);
-        if (bookingsResponse.success && bookingsResponse.data) setBookings(bookingsResponse.data.bookings || []);
-        if (insuranceResponse.success && insuranceResponse.data) setInsuranceRequests(insuranceResponse.data.requests || []);
-        if (requestsResponse.success && requestsResponse.data) setGeneralRequests(requestsResponse.data.requests || []);
+        setPreviousStats(previousStatsResponse.success && previousStatsResponse.data ? previousStatsResponse.data : null);
+        if (bookingsResponse.success && bookingsResponse.data) setBookings(bookingsResponse.data.items);
+        if (insuranceResponse.success && insuranceResponse.data) setInsuranceRequests(insuranceResponse.data.items);
+        if (requestsResponse.success && requestsResponse.data) setGeneralRequests(requestsResponse.data.items);
 
-        if (!statsResponse.success) setError('Failed to load dashboard statistics');
+        // Partial records would skew every chart and delta, so treat them as a failed load
+        const failedRecords = [bookingsResponse, insuranceResponse, requestsResponse].find(response => !response.success);
+        if (!statsResponse.success) setError(statsResponse.error?.message || 'Failed to load dashboard statistics');
+        else if (failedRecords) setError(failedRecords.error?.message || 'Failed to load dashboard records');
 
       } catch (err) {
         console.error('❌ Failed to fetch dashboard data:', err);
         setError('Failed to fetch dashboard data.');
       } finally {
-        setLoading(false);
+        if (!signal.aborted) setLoading(false);
       }
     };
 
     fetchDashboardData();
-  }, []);
+    return () => controller.abort();
+  }, [range]);
+
+  // Split the combined fetch into the selected window and the one before it
+  const scoped = useMemo(() => {
+    const previous = getPreviousPeriod(range);
+    const inRange = <T extends { createdAt: string }>(records: T[], window: { from: Date; to: Date }) =>
+      records.filter(record => isWithinRange(record.createdAt, window));
+    return {
+      bookings: inRange(bookings, range),
+      insuranceRequests: inRange(insuranceRequests, range),
+      generalRequests: inRange(generalRequests, range),
+      previousBookings: inRange(bookings, previous),
+      previousInsuranceRequests: inRange(insuranceRequests, previous),
+      previousGeneralRequests: inRange(generalRequests, previous),
+    };
+  }, [range, bookings, insuranceRequests, generalRequests]);
+
+  const header = (
+    <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+      <p className="text-sm text-muted-foreground">Showing {formatRangeLabel(range).toLowerCase()}</p>
+      <div className="flex items-center gap-2">
+        {can('settings:manage') && <SlaSettings />}
+        <DateRangePicker value={range} onChange={setRange} />
+      </div>
+    </div>
+  );
 
   if (loading) {
     return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-lg">Loading dashboard...</div>
+      <div className="flex flex-col gap-6">
+        {header}
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg">Loading dashboard...</div>
+        </div>
       </div>
     );
   }
 
   if (error || !stats) {
     return (
-      <div className="flex items-center justify-center h-64">
-        <div className="text-lg text-red-600">Error: {error || 'Failed to load dashboard data'}</div>
+      <div className="flex flex-col gap-6">
+        {header}
+        <div className="flex items-center justify-center h-64">
+          <div className="text-lg text-red-600">Error: {error || 'Failed to load dashboard data'}</div>
+        </div>
       </div>
     );
   }
 
   // --- CALCULATIONS ---
-  const totalAllRequests = stats.totalBookings + stats.totalInsuranceRequests + stats.totalCarRequests;
+  const countAllRequests = (s: DashboardStats) => s.totalBookings + s.totalInsuranceRequests + s.totalCarRequests;
+  const totalAllRequests = countAllRequests(stats);
   // Calculate unique customers based on unique phone numbers in bookings
-  const totalCustomers = new Set(bookings.map(b => b.phone)).size;
+  const totalCustomers = new Set(scoped.bookings.map(b => b.phone)).size;
+  const previousCustomers = new Set(scoped.previousBookings.map(b => b.phone)).size;
+  // Records still waiting past the first-contact target plus those answered late
+  const countSlaBreaches = (records: { bookings: Booking[]; insurance: InsuranceRequest[]; general: GeneralRequest[] }) => [
+    ...records.bookings.map(record => getSlaState(record, 'booking', slaRules)),
+    ...records.insurance.map(record => getSlaState(record, 'insurance_request', slaRules)),
+    ...records.general.map(record => getSlaState(record, 'general_request', slaRules)),
+  ].filter(isSlaBreach).length;
+  const slaBreaches = countSlaBreaches({ bookings: scoped.bookings, insurance: scoped.insuranceRequests, general: scoped.generalRequests });
+  const previousSlaBreaches = countSlaBreaches({
+    bookings: scoped.previousBookings,
+    insurance: scoped.previousInsuranceRequests,
+    general: scoped.previousGeneralRequests,
+  });
 
   // Combine and sort recent activity (Last 5 requests)
   const recentActivity = [
-    ...bookings.map(b => ({ ...b, type: 'Booking', label: 'Booking', statusColor: 'default' })),
-    ...insuranceRequests.map(i => ({ ...i, type: 'Insurance', label: 'Insurance', statusColor: 'secondary' })),
-    ...generalRequests.map(g => ({ ...g, type: 'General', label: 'Request', statusColor: 'outline' }))
+    ...scoped.bookings.map(b => ({ ...b, type: 'Booking', label: 'Booking', statusColor: 'default' })),
+    ...scoped.insuranceRequests.map(i => ({ ...i, type: 'Insurance', label: 'Insurance', statusColor: 'secondary' })),
+    ...scoped.generalRequests.map(g => ({ ...g, type: 'General', label: 'Request', statusColor: 'outline' }))
   ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
   .slice(0, 5);
 
   return (
     <div className="flex flex-col gap-6">
-      
+      {header}
+
       {/* --- STATS GRID --- */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {/* 1. Total Revenue */}
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
-            <div className="p-2 bg-green-500/10 rounded-md">
-              <IndianRupee className="h-4 w-4 text-green-600" />
-            </div>
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold text-green-600">{formatCurrency(stats.totalRevenue)}</div>
-            <p className="text-xs text-muted-foreground">Total earnings from bookings</p>
-          </CardContent>
-        </Card>
+        {can('revenue:view') && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+              <div className="p-2 bg-green-500/10 rounded-md">
+                <IndianRupee className="h-4 w-4 text-green-600" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{formatCurrency(stats.totalRevenue)}</div>
+              <p className="text-xs text-muted-foreground">Earnings from bookings in period</p>
+              <PeriodDelta current={stats.totalRevenue} previous={previousStats?.totalRevenue} />
+            </CardContent>
+          </Card>
+        )}
 
         {/* 2. Total Customers */}
         <Card>
@@ -156,7 +263,8 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{totalCustomers}</div>
-            <p className="text-xs text-muted-foreground">Unique customers</p>
+            <p className="text-xs text-muted-foreground">Unique customers in period</p>
+            <PeriodDelta current={totalCustomers} previous={previousCustomers} />
           </CardContent>
         </Card>
 
@@ -171,6 +279,7 @@ export default function DashboardPage() {
           <CardContent>
             <div className="text-2xl font-bold">{stats.pendingBookings}</div>
             <p className="text-xs text-muted-foreground">Bookings waiting for action</p>
+            <PeriodDelta current={stats.pendingBookings} previous={previousStats?.pendingBookings} />
           </CardContent>
         </Card>
 
@@ -185,12 +294,13 @@ export default function DashboardPage() {
           <CardContent>
             <div className="text-2xl font-bold">{stats.completedBookings}</div>
             <p className="text-xs text-muted-foreground">Successfully fulfilled</p>
+            <PeriodDelta current={stats.completedBookings} previous={previousStats?.completedBookings} />
           </CardContent>
         </Card>
       </div>
 
       {/* --- SECONDARY STATS GRID --- */}
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {/* Total All Requests */}
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -202,6 +312,7 @@ export default function DashboardPage() {
           <CardContent>
             <div className="text-2xl font-bold">{totalAllRequests}</div>
             <p className="text-xs text-muted-foreground">Combined bookings & inquiries</p>
+            <PeriodDelta current={totalAllRequests} previous={previousStats ? countAllRequests(previousStats) : undefined} />
           </CardContent>
         </Card>
         
@@ -215,7 +326,8 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalBookings}</div>
-            <p className="text-xs text-muted-foreground">All-time booking records</p>
+            <p className="text-xs text-muted-foreground">Booking records in period</p>
+            <PeriodDelta current={stats.totalBookings} previous={previousStats?.totalBookings} />
           </CardContent>
         </Card>
 
@@ -229,7 +341,23 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{stats.totalInsuranceRequests}</div>
-            <p className="text-xs text-muted-foreground">All-time insurance requests</p>
+            <p className="text-xs text-muted-foreground">Insurance requests in period</p>
+            <PeriodDelta current={stats.totalInsuranceRequests} previous={previousStats?.totalInsuranceRequests} />
+          </CardContent>
+        </Card>
+
+        {/* SLA Breaches */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">SLA Breached</CardTitle>
+            <div className="p-2 bg-red-500/10 rounded-md">
+              <Timer className="h-4 w-4 text-red-600" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className={cn("text-2xl font-bold", slaBreaches > 0 && "text-red-600")}>{slaBreaches}</div>
+            <p className="text-xs text-muted-foreground">Missed the first-contact target</p>
+            <PeriodDelta current={slaBreaches} previous={previousSlaBreaches} lowerIsBetter />
           </CardContent>
         </Card>
       </div>
@@ -238,13 +366,16 @@ export default function DashboardPage() {
         {/* Trend Chart */}
         <Card className="lg:col-span-4">
           <CardHeader>
-            <CardTitle>Last 10 Days Trends</CardTitle>
+            <CardTitle>Trends: {formatRangeLabel(range)}</CardTitle>
+            <CardDescription>Bookings and requests by the day they were created</CardDescription>
           </CardHeader>
           <CardContent className="pl-2">
             <CombinedTrendChart 
-              bookings={bookings}
-              insuranceRequests={insuranceRequests}
-              generalRequests={generalRequests}
+              bookings={scoped.bookings}
+              insuranceRequests={scoped.insuranceRequests}
+              generalRequests={scoped.generalRequests}
+              from={range.from}
+              to={range.to}
             />
           </CardContent>
         </Card>
@@ -256,14 +387,50 @@ export default function DashboardPage() {
           </CardHeader>
           <CardContent>
             <RequestStatusChart 
-              bookings={bookings}
-              insuranceRequests={insuranceRequests} 
-              generalRequests={generalRequests} 
+              bookings={scoped.bookings}
+              insuranceRequests={scoped.insuranceRequests} 
+              generalRequests={scoped.generalRequests} 
             />
           </CardContent>
         </Card>
       </div>
 
+      <div className="grid gap-4 md:grid-cols-1 lg:grid-cols-7">
+        <Card className="lg:col-span-4">
+          <CardHeader>
+            <CardTitle>SLA Compliance</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Share of records first contacted within target, by the day they came in
+            </p>
+          </CardHeader>
+          <CardContent className="pl-2">
+            <SlaComplianceChart
+              bookings={scoped.bookings}
+              insuranceRequests={scoped.insuranceRequests}
+              generalRequests={scoped.generalRequests}
+              rules={slaRules}
+              from={range.from}
+              to={range.to}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle>Cancellation Reasons</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Why bookings created in this period were cancelled
+            </p>
+          </CardHeader>
+          <CardContent>
+            <CancellationReasonsChart bookings={scoped.bookings} />
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Not tied to the selected range: due dates are always relative to now */}
+      <FollowUpsDue limit={3} />
+
       {/* --- NEW SECTION: RECENT 5 REQUESTS --- */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
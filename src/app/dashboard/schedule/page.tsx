@@ -0,0 +1,12 @@
+'use client';
+
+import { BookingCalendar } from "@/components/bookings/booking-calendar";
+
+export default function SchedulePage() {
+  return (
+    <div>
+        <h1 className="text-2xl font-semibold text-primary mb-4">Schedule</h1>
+        <BookingCalendar />
+    </div>
+  );
+}
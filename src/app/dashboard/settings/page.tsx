@@ -0,0 +1,12 @@
+'use client';
+
+import { ServiceCentersCard } from "@/components/service-centers/service-centers-card";
+
+export default function SettingsPage() {
+  return (
+    <div>
+        <h1 className="text-2xl font-semibold text-primary mb-4">Settings</h1>
+        <ServiceCentersCard />
+    </div>
+  );
+}
@@ -1,13 +1,19 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { authApi, setAuthToken, getAuthToken } from "@/lib/api";
+import { authApi } from "@/lib/api";
+
+// Only follow redirects back into the dashboard, never to another origin
+const getRedirectTarget = () => {
+  const next = new URLSearchParams(window.location.search).get("next");
+  return next?.startsWith("/dashboard") ? next : "/dashboard";
+};
 
 export default function LoginPage() {
   const [username, setUsername] = useState("");
@@ -16,14 +22,6 @@ export default function LoginPage() {
   const router = useRouter();
   const { toast } = useToast();
 
-  // Auto-login check
-  useEffect(() => {
-    const token = getAuthToken();
-    if (token) {
-      router.push("/dashboard");
-    }
-  }, [router]);
-
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -31,18 +29,17 @@ export default function LoginPage() {
     try {
       const response = await authApi.login(username, password);
 
-      if (response.success && response.data) {
-        setAuthToken(response.data.access_token);
+      if (response.success) {
         toast({
           title: "Login successful",
           description: "Welcome back!",
         });
-        router.push("/dashboard");
+        router.replace(getRedirectTarget());
       } else {
         toast({
           variant: "destructive",
           title: "Login failed",
-          description: response.error || "Invalid credentials",
+          description: response.error?.message || "Invalid credentials",
         });
       }
     } catch (error) {
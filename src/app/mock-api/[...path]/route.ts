@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isMockBackend, MOCK_API_PATH } from '@/lib/backend-config';
+import { handleMockRequest } from '@/lib/mock-backend/handler';
+
+async function handle(request: NextRequest) {
+  if (!isMockBackend) {
+    return NextResponse.json({ detail: 'Mock backend is disabled' }, { status: 404 });
+  }
+
+  const body = ['POST', 'PUT', 'PATCH'].includes(request.method) ? await request.json().catch(() => undefined) : undefined;
+  const { status, body: responseBody } = handleMockRequest({
+    method: request.method,
+    path: request.nextUrl.pathname.slice(MOCK_API_PATH.length),
+    searchParams: request.nextUrl.searchParams,
+    headers: request.headers,
+    body,
+  });
+  return NextResponse.json(responseBody, { status, headers: { 'Cache-Control': 'no-store' } });
+}
+
+export { handle as GET, handle as POST, handle as PUT, handle as PATCH, handle as DELETE };
@@ -6,12 +6,11 @@ export default function TestApiPage() {
   const [apiUrl, setApiUrl] = useState<string>('');
 
   useEffect(() => {
-    // Test the API URL configuration
-    const url = process.env.NEXT_PUBLIC_API_BASE_URL || 'https://drvyn-backend.vercel.app';
+    // The browser only talks to the same-origin proxy; the backend URL stays server-side
+    const url = `${window.location.origin}/api`;
     setApiUrl(url);
     
     console.log('Test page - API URL:', url);
-    console.log('Test page - Environment variable:', process.env.NEXT_PUBLIC_API_BASE_URL);
   }, []);
 
   return (
@@ -22,10 +21,10 @@ export default function TestApiPage() {
           <strong>API Base URL:</strong> {apiUrl}
         </div>
         <div>
-          <strong>Environment Variable:</strong> {process.env.NEXT_PUBLIC_API_BASE_URL || 'Not set'}
+          <strong>Backend URL:</strong> Configured server-side via API_BASE_URL
         </div>
         <div>
-          <strong>Full Login URL:</strong> {apiUrl}/admin/login
+          <strong>Full Login URL:</strong> {apiUrl}/auth/login
         </div>
       </div>
     </div>
@@ -3,7 +3,7 @@
 import * as React from "react"
 import Link from 'next/link'
 import { usePathname, useRouter } from 'next/navigation'
-import { LayoutDashboard, CalendarDays, ShieldCheck, MessageSquare, Car, LogOut, Users } from "lucide-react"
+import { LayoutDashboard, CalendarDays, CalendarRange, ShieldCheck, MessageSquare, Car, LogOut, Users, History, BellRing, Inbox, Settings } from "lucide-react"
 import {
   Sidebar,
   SidebarContent,
@@ -11,26 +11,40 @@ import {
   SidebarMenu,
   SidebarMenuItem,
   SidebarMenuButton,
+  SidebarMenuBadge,
   SidebarFooter,
 } from "@/components/ui/sidebar"
-import { clearAuthToken } from "@/lib/api"
+import { authApi } from "@/lib/api"
+import { adminRoleLabels, getRoutePermission } from "@/lib/permissions"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useFollowUps } from "@/hooks/use-follow-ups"
 
 export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const pathname = usePathname()
   const router = useRouter()
+  const { role, can } = usePermissions()
+  const { dueCount } = useFollowUps()
 
-  const handleLogout = () => {
-    clearAuthToken() // Use the API helper to clear token
+  const handleLogout = async () => {
+    await authApi.logout() // Clears the session cookie as well as the in-memory token
     router.replace('/login')
   }
 
   const menuItems = [
     { href: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
+    { href: "/dashboard/my-queue", label: "My Queue", icon: Inbox },
     { href: "/dashboard/customers", label: "Customers", icon: Users },
     { href: "/dashboard/bookings", label: "Bookings", icon: CalendarDays },
+    { href: "/dashboard/schedule", label: "Schedule", icon: CalendarRange },
     { href: "/dashboard/insurance-requests", label: "Insurance", icon: ShieldCheck },
     { href: "/dashboard/requests", label: "Requests", icon: MessageSquare },
-  ]
+    { href: "/dashboard/follow-ups", label: "Follow-ups", icon: BellRing, badge: dueCount },
+    { href: "/dashboard/audit", label: "Audit Log", icon: History },
+    { href: "/dashboard/settings", label: "Settings", icon: Settings },
+  ].filter((item) => {
+    const permission = getRoutePermission(item.href)
+    return !permission || can(permission)
+  })
 
   return (
     <Sidebar collapsible="icon" {...props}>
@@ -41,7 +55,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
           </div>
           <div className="grid flex-1 text-left text-sm leading-tight group-data-[collapsible=icon]:hidden">
             <span className="truncate font-semibold">Drvyn</span>
-            <span className="truncate text-xs">Admin Panel</span>
+            <span className="truncate text-xs">{role ? adminRoleLabels[role] : "Admin Panel"}</span>
           </div>
         </div>
       </SidebarHeader>
@@ -51,7 +65,7 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
             <SidebarMenuItem key={item.href}>
               <SidebarMenuButton
                 asChild
-                isActive={pathname === item.href}
+                isActive={pathname === item.href || (item.href !== "/dashboard" && pathname.startsWith(`${item.href}/`))}
                 tooltip={item.label}
               >
                 <Link href={item.href}>
@@ -59,6 +73,10 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
                   <span>{item.label}</span>
                 </Link>
               </SidebarMenuButton>
+              {/* Overdue plus due today */}
+              {!!item.badge && (
+                <SidebarMenuBadge className="bg-red-100 text-red-700">{item.badge}</SidebarMenuBadge>
+              )}
             </SidebarMenuItem>
           ))}
         </SidebarMenu>
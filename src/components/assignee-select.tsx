@@ -0,0 +1,49 @@
+"use client"
+
+import { UserRound } from "lucide-react"
+import { AdminUser } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+// Radix Select can't use an empty string as an item value
+export const UNASSIGNED_VALUE = "__unassigned__"
+
+interface AssigneeSelectProps {
+  value?: string | null
+  assignees: AdminUser[]
+  onChange: (assignedTo: string | null) => void
+  disabled?: boolean
+}
+
+export function AssigneeSelect({ value, assignees, onChange, disabled }: AssigneeSelectProps) {
+  // Keep the current owner selectable even if they are no longer in the assignable list
+  const options = value && !assignees.some((admin) => admin.username === value)
+    ? [...assignees, { username: value }]
+    : assignees
+
+  return (
+    <Select
+      value={value || UNASSIGNED_VALUE}
+      onValueChange={(next) => onChange(next === UNASSIGNED_VALUE ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className={cn("h-9 w-36", !value && "text-muted-foreground")}>
+        <div className="flex items-center gap-2 truncate">
+          <UserRound className="h-4 w-4 shrink-0" />
+          <SelectValue />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={UNASSIGNED_VALUE} className="text-muted-foreground">
+          Unassigned
+        </SelectItem>
+        {options.map((admin) => (
+          <SelectItem key={admin.username} value={admin.username}>
+            {admin.username}
+            {admin.active === false && " (inactive)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
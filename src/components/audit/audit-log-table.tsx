@@ -0,0 +1,191 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AuditEntityType, AuditLogEntry } from "@/lib/types";
+import { auditApi, isAbortError } from "@/lib/api";
+import { auditEntityLabels } from "@/lib/audit";
+import { useDebounce } from "@/hooks/use-debounce";
+
+const PAGE_SIZE = 20;
+
+const entityLinks: Partial<Record<AuditEntityType, (id: string) => string>> = {
+  booking: (id) => `/dashboard/bookings/${id}`,
+};
+
+export default function AuditLogTable() {
+  const [entries, setEntries] = React.useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = React.useState(0);
+  const [actor, setActor] = React.useState("");
+  const [entityType, setEntityType] = React.useState<AuditEntityType | "all">("all");
+  const [from, setFrom] = React.useState("");
+  const [to, setTo] = React.useState("");
+  const [pageIndex, setPageIndex] = React.useState(0);
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const debouncedActor = useDebounce(actor.trim());
+
+  React.useEffect(() => {
+    setPageIndex(0);
+  }, [debouncedActor, entityType, from, to]);
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchEntries = async () => {
+      setIsLoading(true);
+      const response = await auditApi.getAll(
+        {
+          actor: debouncedActor || undefined,
+          entityType: entityType !== "all" ? entityType : undefined,
+          // Date inputs are local calendar days; widen "to" to the end of that day
+          from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+          to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+          skip: pageIndex * PAGE_SIZE,
+          limit: PAGE_SIZE,
+        },
+        { signal: controller.signal }
+      );
+      if (isAbortError(response.error)) return;
+
+      if (response.success && response.data) {
+        setEntries(response.data.items);
+        setTotal(response.data.total ?? 0);
+        setError(null);
+      } else {
+        setError(response.error?.message || "Failed to load audit log");
+      }
+      setIsLoading(false);
+    };
+
+    fetchEntries();
+    return () => controller.abort();
+  }, [debouncedActor, entityType, from, to, pageIndex]);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="rounded-lg border bg-card text-card-foreground shadow-sm">
+      <div className="flex flex-wrap items-center p-4 gap-4">
+        <Input
+          placeholder="Filter by user..."
+          value={actor}
+          onChange={(event) => setActor(event.target.value)}
+          className="max-w-xs"
+        />
+        <Select value={entityType} onValueChange={(value) => setEntityType(value as AuditEntityType | "all")}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Entity type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Entities</SelectItem>
+            {(Object.keys(auditEntityLabels) as AuditEntityType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {auditEntityLabels[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">From</span>
+          <Input type="date" value={from} onChange={(event) => setFrom(event.target.value)} className="w-[160px]" />
+          <span className="text-muted-foreground">to</span>
+          <Input type="date" value={to} onChange={(event) => setTo(event.target.value)} className="w-[160px]" />
+        </div>
+      </div>
+      <div className="border-t">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="whitespace-nowrap font-bold text-black">When</TableHead>
+              <TableHead className="whitespace-nowrap font-bold text-black">User</TableHead>
+              <TableHead className="whitespace-nowrap font-bold text-black">Entity</TableHead>
+              <TableHead className="whitespace-nowrap font-bold text-black">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">Loading...</TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center text-red-600">Error: {error}</TableCell>
+              </TableRow>
+            ) : entries.length ? (
+              entries.map((entry, index) => {
+                const link = entityLinks[entry.entityType]?.(entry.entityId);
+                return (
+                  <TableRow key={entry._id || `${entry.timestamp}-${index}`}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(entry.timestamp), "MMM dd, yyyy h:mm a")}
+                    </TableCell>
+                    <TableCell className="font-medium">{entry.actor}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{auditEntityLabels[entry.entityType]}</Badge>
+                        {link ? (
+                          <Link href={link} className="text-xs text-muted-foreground underline underline-offset-2">
+                            {entry.entityId}
+                          </Link>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{entry.entityId}</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="capitalize">
+                      {entry.previousStatus} → <span className="font-medium">{entry.newStatus}</span>
+                      {entry.reason && <div className="text-xs normal-case text-muted-foreground">{entry.reason}</div>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            ) : (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">No results.</TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-between p-4 border-t">
+        <div className="text-sm text-muted-foreground">
+          {total === 0 ? "No results." : `${total} change(s). Page ${pageIndex + 1} of ${pageCount}.`}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setPageIndex((p) => p - 1)} disabled={pageIndex === 0}>
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPageIndex((p) => p + 1)}
+            disabled={pageIndex + 1 >= pageCount}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+"use client"
+
+import * as React from "react"
+import { format } from "date-fns"
+import { AuditEntityType, AuditLogEntry } from "@/lib/types"
+import { auditApi, isAbortError } from "@/lib/api"
+
+interface RecordAuditLogProps {
+  entityType: AuditEntityType
+  entityId: string
+}
+
+export function RecordAuditLog({ entityType, entityId }: RecordAuditLogProps) {
+  const [entries, setEntries] = React.useState<AuditLogEntry[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+
+    const fetchEntries = async () => {
+      setIsLoading(true)
+      const response = await auditApi.getAll({ entityType, entityId, limit: 100 }, { signal: controller.signal })
+      if (isAbortError(response.error)) return
+
+      if (response.success && response.data) {
+        setEntries(response.data.items)
+        setError(null)
+      } else {
+        setError(response.error?.message || "Failed to load audit log")
+      }
+      setIsLoading(false)
+    }
+
+    fetchEntries()
+    return () => controller.abort()
+  }, [entityType, entityId])
+
+  if (isLoading) return <p className="text-sm text-muted-foreground">Loading audit log...</p>
+  if (error) return <p className="text-sm text-red-600">Error: {error}</p>
+  if (!entries.length) return <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+
+  return (
+    <ul className="space-y-2 text-sm">
+      {entries.map((entry, index) => (
+        <li key={entry._id || `${entry.timestamp}-${index}`} className="flex flex-col rounded-md border px-3 py-2">
+          <span>
+            <span className="font-medium">{entry.actor}</span> changed status from{" "}
+            <span className="capitalize font-medium">{entry.previousStatus}</span> to{" "}
+            <span className="capitalize font-medium">{entry.newStatus}</span>
+          </span>
+          {entry.reason && <span className="text-muted-foreground">Reason: {entry.reason}</span>}
+          <span className="text-xs text-muted-foreground">{format(new Date(entry.timestamp), "MMM dd, yyyy 'at' h:mm a")}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,439 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns"
+import { AlertTriangle, ChevronLeft, ChevronRight } from "lucide-react"
+import { bookingsApi, isAbortError } from "@/lib/api"
+import { compareSlots, toDateKey } from "@/lib/slots"
+import { Booking, DailyCapacity } from "@/lib/types"
+import { bookingWorkflow, isTerminalStatus } from "@/lib/workflow"
+import { cn } from "@/lib/utils"
+import { useBookingOptions } from "@/hooks/use-booking-options"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useServiceCenters } from "@/hooks/use-service-centers"
+import { useToast } from "@/hooks/use-toast"
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { statusStyles } from "./columns"
+import { RescheduleDialog } from "./reschedule-dialog"
+
+type CalendarView = "day" | "week" | "month"
+
+interface PendingMove {
+  booking: Booking
+  date: string
+  time: string
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const
+// A busy month across every center fits; beyond that the calendar says it is truncated
+const MAX_BOOKINGS = 500
+const MONTH_CELL_LIMIT = 3
+const ALL_CENTERS = "all"
+
+const getRange = (view: CalendarView, anchor: Date) => {
+  if (view === "day") return { start: anchor, end: anchor }
+  if (view === "week") return { start: startOfWeek(anchor, WEEK_OPTIONS), end: endOfWeek(anchor, WEEK_OPTIONS) }
+  // The month grid pads out to whole weeks
+  return { start: startOfWeek(startOfMonth(anchor), WEEK_OPTIONS), end: endOfWeek(endOfMonth(anchor), WEEK_OPTIONS) }
+}
+
+const shiftAnchor = (view: CalendarView, anchor: Date, step: number) =>
+  view === "day" ? addDays(anchor, step) : view === "week" ? addWeeks(anchor, step) : addMonths(anchor, step)
+
+const formatTitle = (view: CalendarView, anchor: Date, start: Date, end: Date) =>
+  view === "day"
+    ? format(anchor, "EEEE, MMM d, yyyy")
+    : view === "week"
+      ? `${format(start, "MMM d")} – ${format(end, "MMM d, yyyy")}`
+      : format(anchor, "MMMM yyyy")
+
+function CapacityBar({ label, booked, capacity }: { label?: string; booked: number; capacity: number }) {
+  const ratio = capacity ? booked / capacity : 0
+  return (
+    <div
+      className="flex items-center gap-1 text-[10px] text-muted-foreground"
+      title={`${label ? `${label}: ` : ""}${booked} of ${capacity} slots booked`}
+    >
+      {label && <span className="max-w-[6rem] truncate">{label}</span>}
+      <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-muted">
+        <div
+          className={cn("h-full rounded-full", ratio >= 1 ? "bg-red-500" : ratio >= 0.75 ? "bg-amber-500" : "bg-green-500")}
+          style={{ width: `${Math.min(ratio, 1) * 100}%` }}
+        />
+      </div>
+      <span>{booked}/{capacity}</span>
+    </div>
+  )
+}
+
+function BookingChip({ booking, showCenter, canDrag, onOpen }: {
+  booking: Booking
+  showCenter: boolean
+  canDrag: boolean
+  onOpen: () => void
+}) {
+  return (
+    <button
+      type="button"
+      draggable={canDrag}
+      onDragStart={(event) => {
+        event.dataTransfer.setData("text/plain", booking._id)
+        event.dataTransfer.effectAllowed = "move"
+      }}
+      onClick={onOpen}
+      title={`${booking.time} • ${booking.brand} ${booking.model} • ${booking.serviceCenter} • ${booking.status}`}
+      className={cn(
+        "w-full truncate rounded border px-1.5 py-0.5 text-left text-xs",
+        statusStyles[booking.status],
+        canDrag ? "cursor-grab" : "cursor-pointer",
+        booking.status === "cancelled" && "line-through opacity-70"
+      )}
+    >
+      <span className="font-medium">{booking.time}</span> {booking.brand} {booking.model}
+      {showCenter && <span className="opacity-70"> · {booking.serviceCenter}</span>}
+    </button>
+  )
+}
+
+export function BookingCalendar() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { can } = usePermissions()
+  const { options } = useBookingOptions()
+  const { centers: serviceCenters } = useServiceCenters()
+  const canEdit = can("bookings:edit")
+
+  const [view, setView] = React.useState<CalendarView>("week")
+  const [anchor, setAnchor] = React.useState(() => new Date())
+  const [center, setCenter] = React.useState(ALL_CENTERS)
+  const [bookings, setBookings] = React.useState<Booking[]>([])
+  const [total, setTotal] = React.useState(0)
+  const [capacity, setCapacity] = React.useState<DailyCapacity[]>([])
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [capacityError, setCapacityError] = React.useState<string | null>(null)
+  const [dropTarget, setDropTarget] = React.useState<string | null>(null)
+  const [pendingMove, setPendingMove] = React.useState<PendingMove | null>(null)
+  // Bumped after a reschedule so bookings and capacity refetch
+  const [reloadKey, setReloadKey] = React.useState(0)
+
+  const { start, end } = getRange(view, anchor)
+  const from = toDateKey(start)
+  const to = toDateKey(end)
+  const days = React.useMemo(
+    () => eachDayOfInterval({ start: new Date(`${from}T00:00:00`), end: new Date(`${to}T00:00:00`) }),
+    [from, to]
+  )
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const fetchSchedule = async () => {
+      setIsLoading(true)
+      const [bookingsResponse, capacityResponse] = await Promise.all([
+        bookingsApi.getAll(
+          {
+            dateFrom: from,
+            dateTo: to,
+            serviceCenter: center === ALL_CENTERS ? undefined : center,
+            limit: MAX_BOOKINGS,
+            sortBy: "date",
+            sortOrder: "asc",
+          },
+          { signal }
+        ),
+        bookingsApi.getCapacity(from, to, { signal }),
+      ])
+      if (isAbortError(bookingsResponse.error)) return
+
+      if (bookingsResponse.success && bookingsResponse.data) {
+        setBookings(bookingsResponse.data.items)
+        setTotal(bookingsResponse.data.total)
+        setError(null)
+      } else {
+        setError(bookingsResponse.error?.message || "Failed to load bookings")
+      }
+      // Stale figures from another range or center would be misleading, so drop them
+      if (capacityResponse.success && capacityResponse.data) {
+        setCapacity(capacityResponse.data)
+        setCapacityError(null)
+      } else {
+        setCapacity([])
+        setCapacityError(capacityResponse.error?.message || "Failed to load capacity")
+      }
+      setIsLoading(false)
+    }
+
+    fetchSchedule()
+    return () => controller.abort()
+  }, [from, to, center, reloadKey])
+
+  const activeCenters = serviceCenters.filter((item) => item.active).map((item) => item.name)
+  const centers = center === ALL_CENTERS ? activeCenters : [center]
+  // Legacy bookings may sit outside today's slot list; give them a row rather than hiding them
+  const slots = React.useMemo(
+    () => [...new Set([...options.timeSlots, ...bookings.map((booking) => booking.time)])].sort(compareSlots),
+    [options.timeSlots, bookings]
+  )
+  const bookingsOn = (date: string, time?: string, serviceCenter?: string) =>
+    bookings.filter(
+      (booking) =>
+        booking.date === date &&
+        (!time || booking.time === time) &&
+        (!serviceCenter || booking.serviceCenter === serviceCenter)
+    )
+  const capacityOf = (date: string, serviceCenter: string) =>
+    capacity.find((entry) => entry.date === date && entry.serviceCenter === serviceCenter)
+
+  const canMove = (booking: Booking) => canEdit && !isTerminalStatus(bookingWorkflow, booking.status)
+
+  const handleDrop = (bookingId: string, date: string, time?: string, serviceCenter?: string) => {
+    const booking = bookings.find((item) => item._id === bookingId)
+    if (!booking || !canMove(booking)) return
+    if (serviceCenter && serviceCenter !== booking.serviceCenter) {
+      toast({ title: "Change the service center from the booking's edit form", description: "Dragging only moves the date and time." })
+      return
+    }
+    const target = { booking, date, time: time ?? booking.time }
+    if (target.date === booking.date && target.time === booking.time) return
+    setPendingMove(target)
+  }
+
+  // Spread onto any cell a booking can be dropped on
+  const dropZone = (key: string, date: string, time?: string, serviceCenter?: string) =>
+    canEdit
+      ? {
+          onDragOver: (event: React.DragEvent) => {
+            event.preventDefault()
+            event.dataTransfer.dropEffect = "move"
+            if (dropTarget !== key) setDropTarget(key)
+          },
+          onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+          onDrop: (event: React.DragEvent) => {
+            event.preventDefault()
+            setDropTarget(null)
+            handleDrop(event.dataTransfer.getData("text/plain"), date, time, serviceCenter)
+          },
+        }
+      : {}
+
+  const renderChip = (booking: Booking) => (
+    <BookingChip
+      key={booking._id}
+      booking={booking}
+      showCenter={center === ALL_CENTERS && view !== "day"}
+      canDrag={canMove(booking)}
+      onOpen={() => router.push(`/dashboard/bookings/${booking._id}`)}
+    />
+  )
+
+  const renderCapacity = (date: string, withLabels: boolean) =>
+    centers.map((serviceCenter) => {
+      const entry = capacityOf(date, serviceCenter)
+      return entry ? (
+        <CapacityBar
+          key={serviceCenter}
+          label={withLabels && centers.length > 1 ? serviceCenter : undefined}
+          booked={entry.booked}
+          capacity={entry.capacity}
+        />
+      ) : null
+    })
+
+  const openDay = (day: Date) => {
+    setAnchor(day)
+    setView("day")
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" aria-label="Previous" onClick={() => setAnchor((old) => shiftAnchor(view, old, -1))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" aria-label="Next" onClick={() => setAnchor((old) => shiftAnchor(view, old, 1))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 text-lg font-semibold">{formatTitle(view, anchor, start, end)}</h2>
+          {isLoading && <span className="text-sm text-muted-foreground">Loading...</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={center} onValueChange={setCenter}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_CENTERS}>All service centers</SelectItem>
+              {activeCenters.map((item) => (
+                <SelectItem key={item} value={item}>{item}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Tabs value={view} onValueChange={(value) => setView(value as CalendarView)}>
+            <TabsList>
+              <TabsTrigger value="day">Day</TabsTrigger>
+              <TabsTrigger value="week">Week</TabsTrigger>
+              <TabsTrigger value="month">Month</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">Error: {error}</div>}
+      {capacityError && <div className="text-sm text-red-600">Capacity unavailable: {capacityError}</div>}
+      {total > bookings.length && (
+        <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4" />
+          There are more bookings than shown: {total} in this range, the first {bookings.length} are on the calendar.
+          Narrow the view or pick a service center.
+        </div>
+      )}
+
+      {view === "month" && (
+        <div className="grid grid-cols-7 overflow-hidden rounded-md border">
+          {days.slice(0, 7).map((day) => (
+            <div key={day.toISOString()} className="border-b bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground">
+              {format(day, "EEE")}
+            </div>
+          ))}
+          {days.map((day) => {
+            const date = toDateKey(day)
+            const dayBookings = bookingsOn(date)
+            return (
+              <div
+                key={date}
+                {...dropZone(date, date)}
+                className={cn(
+                  "min-h-[120px] space-y-1 border-b border-r p-1",
+                  !isSameMonth(day, anchor) && "bg-muted/30 text-muted-foreground",
+                  dropTarget === date && "bg-primary/10"
+                )}
+              >
+                <button type="button" className="text-xs font-medium hover:underline" onClick={() => openDay(day)}>
+                  {format(day, "d")}
+                </button>
+                {renderCapacity(date, false)}
+                {dayBookings.slice(0, MONTH_CELL_LIMIT).map(renderChip)}
+                {dayBookings.length > MONTH_CELL_LIMIT && (
+                  <button type="button" className="text-xs text-muted-foreground hover:underline" onClick={() => openDay(day)}>
+                    +{dayBookings.length - MONTH_CELL_LIMIT} more
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {view === "week" && (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full min-w-[900px] table-fixed border-collapse text-sm">
+            <thead>
+              <tr>
+                <th className="w-24 border-b bg-muted/50" />
+                {days.map((day) => (
+                  <th key={day.toISOString()} className="space-y-1 border-b border-l bg-muted/50 p-2 text-left align-top font-normal">
+                    <button type="button" className="text-xs font-medium hover:underline" onClick={() => openDay(day)}>
+                      {format(day, "EEE d")}
+                    </button>
+                    {renderCapacity(toDateKey(day), false)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {slots.map((slot) => (
+                <tr key={slot}>
+                  <td className="border-b px-2 py-1 align-top text-xs text-muted-foreground">{slot}</td>
+                  {days.map((day) => {
+                    const date = toDateKey(day)
+                    const key = `${date}|${slot}`
+                    return (
+                      <td
+                        key={key}
+                        {...dropZone(key, date, slot)}
+                        className={cn("h-16 space-y-1 border-b border-l p-1 align-top", dropTarget === key && "bg-primary/10")}
+                      >
+                        {bookingsOn(date, slot).map(renderChip)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {view === "day" && (
+        <div className="overflow-x-auto rounded-md border">
+          <table className="w-full table-fixed border-collapse text-sm">
+            <thead>
+              <tr>
+                <th className="w-24 border-b bg-muted/50" />
+                {centers.map((serviceCenter) => {
+                  const entry = capacityOf(from, serviceCenter)
+                  return (
+                    <th key={serviceCenter} className="space-y-1 border-b border-l bg-muted/50 p-2 text-left align-top font-normal">
+                      <div className="text-xs font-medium">{serviceCenter}</div>
+                      {entry && <CapacityBar booked={entry.booked} capacity={entry.capacity} />}
+                    </th>
+                  )
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {slots.map((slot) => (
+                <tr key={slot}>
+                  <td className="border-b px-2 py-1 align-top text-xs text-muted-foreground">{slot}</td>
+                  {centers.map((serviceCenter) => {
+                    const key = `${serviceCenter}|${slot}`
+                    return (
+                      <td
+                        key={key}
+                        {...dropZone(key, from, slot, serviceCenter)}
+                        className={cn("h-16 space-y-1 border-b border-l p-1 align-top", dropTarget === key && "bg-primary/10")}
+                      >
+                        {bookingsOn(from, slot, serviceCenter).map(renderChip)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <RescheduleDialog
+        booking={pendingMove?.booking ?? null}
+        initialDate={pendingMove?.date}
+        initialTime={pendingMove?.time}
+        onOpenChange={(open) => !open && setPendingMove(null)}
+        onRescheduled={() => {
+          setPendingMove(null)
+          setReloadKey((key) => key + 1)
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,7 @@
+"use client"
+
+import * as React from "react"
+import { Booking } from "@/lib/types"
+
+// Lets the detail drawer route tell the bookings table, rendered by the layout above it, to refetch
+export const BookingChangeContext = React.createContext<(booking: Booking) => void>(() => {})
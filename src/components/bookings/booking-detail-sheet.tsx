@@ -0,0 +1,349 @@
+"use client"
+
+import * as React from "react"
+import { format } from "date-fns"
+import { AlertTriangle, CalendarClock, Pencil, XCircle } from "lucide-react"
+import { Booking, BookingStatus, StatusChange } from "@/lib/types"
+import { bookingsApi, isAbortError, StatusUpdateDetails } from "@/lib/api"
+import { auditEntityLabels } from "@/lib/audit"
+import { cancellationReasonLabels } from "@/lib/statuses"
+import { bookingWorkflow, canTransition, isTerminalStatus } from "@/lib/workflow"
+import { isFuelTypeUnsupported } from "@/lib/service-centers"
+import { cn } from "@/lib/utils"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { RecordAuditLog } from "@/components/audit/record-audit-log"
+import { RecordNotes } from "@/components/notes/record-notes"
+import { StatusTransitionDialog } from "@/components/status-transition-dialog"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useServiceCenters } from "@/hooks/use-service-centers"
+import { useToast } from "@/hooks/use-toast"
+import { statusStyles } from "./columns"
+import { BookingFormDialog } from "./booking-form-dialog"
+import { RescheduleDialog } from "./reschedule-dialog"
+
+interface BookingDetailSheetProps {
+  bookingId: string | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called after the booking was edited, rescheduled, cancelled or noted from here
+  onBookingChange?: (booking: Booking) => void
+}
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR" }).format(amount)
+
+const formatTimestamp = (value: string) => {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : format(date, "MMM dd, yyyy 'at' h:mm a")
+}
+
+// Older bookings have no recorded history, so fall back to the creation event
+const buildTimeline = (booking: Booking): StatusChange<BookingStatus>[] => {
+  const history = booking.statusHistory?.length
+    ? booking.statusHistory
+    : [{ to: booking.status, changedAt: booking.createdAt }]
+  return [...history].sort((a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime())
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="col-span-2 font-medium">{children}</span>
+    </div>
+  )
+}
+
+export function BookingDetailSheet({ bookingId, open, onOpenChange, onBookingChange }: BookingDetailSheetProps) {
+  const [booking, setBooking] = React.useState<Booking | null>(null)
+  const [isLoading, setIsLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [isEditing, setIsEditing] = React.useState(false)
+  const [isRescheduling, setIsRescheduling] = React.useState(false)
+  const [isCancelling, setIsCancelling] = React.useState(false)
+  const { can } = usePermissions()
+  const { centers } = useServiceCenters()
+  const { toast } = useToast()
+
+  React.useEffect(() => {
+    if (!bookingId) return
+    const controller = new AbortController()
+
+    const fetchBooking = async () => {
+      setIsLoading(true)
+      setError(null)
+      const response = await bookingsApi.getById(bookingId, { signal: controller.signal })
+      if (isAbortError(response.error)) return
+
+      if (response.success && response.data) {
+        setBooking(response.data)
+      } else {
+        setBooking(null)
+        setError(response.error?.message || "Failed to load booking")
+      }
+      setIsLoading(false)
+    }
+
+    fetchBooking()
+    return () => controller.abort()
+  }, [bookingId])
+
+  const cancelBooking = async (details: StatusUpdateDetails) => {
+    if (!booking) return
+    setIsCancelling(false)
+    const response = await bookingsApi.updateStatus(booking._id, "cancelled", details)
+    if (!response.success) {
+      toast({ variant: "destructive", title: "Could not cancel booking", description: response.error?.message })
+      return
+    }
+    // Reload for the status history entry the backend added
+    const refreshed = await bookingsApi.getById(booking._id)
+    const cancelled = refreshed.success && refreshed.data ? refreshed.data : { ...booking, status: "cancelled" as const }
+    setBooking(cancelled)
+    onBookingChange?.(cancelled)
+  }
+
+  const canEdit = can("bookings:edit")
+  const cartItems = booking?.cartItems || []
+  const subtotal = cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+  const isReconciled = booking ? Math.abs(subtotal - booking.totalPrice) < 0.01 : true
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {booking ? `${booking.brand} ${booking.model}` : "Booking details"}
+          </SheetTitle>
+          <SheetDescription>
+            {booking ? `${booking.year} • ${booking.fuelType} • Booked ${formatTimestamp(booking.createdAt)}` : bookingId}
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="py-12 text-center text-sm text-muted-foreground">Loading booking...</div>
+        ) : error ? (
+          <div className="py-12 text-center text-sm text-red-600">Error: {error}</div>
+        ) : booking ? (
+          <div className="mt-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <Badge className={cn("capitalize border", statusStyles[booking.status])}>{booking.status}</Badge>
+              {canEdit && (
+                <div className="flex gap-2">
+                  {!isTerminalStatus(bookingWorkflow, booking.status) && (
+                    <Button variant="outline" size="sm" onClick={() => setIsRescheduling(true)}>
+                      <CalendarClock className="mr-1 h-4 w-4" />
+                      Reschedule
+                    </Button>
+                  )}
+                  {canTransition(bookingWorkflow, booking.status, "cancelled") && (
+                    <Button variant="outline" size="sm" onClick={() => setIsCancelling(true)}>
+                      <XCircle className="mr-1 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                    <Pencil className="mr-1 h-4 w-4" />
+                    Edit
+                  </Button>
+                </div>
+              )}
+            </div>
+            {booking.cancellationReason && (
+              <DetailRow label="Cancellation reason">{cancellationReasonLabels[booking.cancellationReason]}</DetailRow>
+            )}
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Customer</h3>
+              <DetailRow label="Phone">{booking.phone}</DetailRow>
+              <DetailRow label="Alternate phone">{booking.alternatePhone || "-"}</DetailRow>
+              <DetailRow label="Address">{booking.address}</DetailRow>
+              <DetailRow label="Assigned to">{booking.assignedTo || "Unassigned"}</DetailRow>
+              {booking.source && (
+                <DetailRow label="Converted from">
+                  {auditEntityLabels[booking.source.entityType]} {booking.source.entityId}
+                </DetailRow>
+              )}
+            </section>
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Appointment</h3>
+              <DetailRow label="Date">{booking.date}</DetailRow>
+              <DetailRow label="Time">{booking.time}</DetailRow>
+              <DetailRow label="Service center">{booking.serviceCenter}</DetailRow>
+              {isFuelTypeUnsupported(centers, booking.serviceCenter, booking.fuelType) && (
+                <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-800">
+                  <AlertTriangle className="h-4 w-4" />
+                  {booking.serviceCenter} does not service {booking.fuelType} vehicles.
+                </div>
+              )}
+              {booking.rescheduleHistory?.length ? (
+                <ol className="space-y-2 pt-2">
+                  {[...booking.rescheduleHistory].reverse().map((change, index) => (
+                    <li key={`${change.changedAt}-${index}`} className="rounded-md border p-2 text-xs">
+                      <div className="font-medium">
+                        Moved from {change.fromDate} {change.fromTime} to {change.toDate} {change.toTime}
+                      </div>
+                      <div className="text-muted-foreground">
+                        {formatTimestamp(change.changedAt)}
+                        {change.changedBy && ` by ${change.changedBy}`}
+                      </div>
+                      <div className="mt-1">Reason: {change.reason}</div>
+                    </li>
+                  ))}
+                </ol>
+              ) : null}
+            </section>
+
+            <Separator />
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Services</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Package</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {cartItems.map((item, index) => (
+                    <TableRow key={`${index}-${item.packageName}`}>
+                      <TableCell>{item.packageName}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.price)}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(item.price * item.quantity)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Subtotal</TableCell>
+                    <TableCell className="text-right">{formatCurrency(subtotal)}</TableCell>
+                  </TableRow>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total charged</TableCell>
+                    <TableCell className="text-right">{formatCurrency(booking.totalPrice)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+              {!isReconciled && (
+                <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-800">
+                  <AlertTriangle className="h-4 w-4" />
+                  Cart subtotal differs from the booking total by {formatCurrency(booking.totalPrice - subtotal)}.
+                </div>
+              )}
+            </section>
+
+            <Separator />
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">Status history</h3>
+              <ol className="relative border-l pl-4 space-y-4">
+                {buildTimeline(booking).map((change, index) => (
+                  <li key={`${change.changedAt}-${index}`} className="text-sm">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                    <div className="flex items-center gap-2">
+                      {change.from && (
+                        <>
+                          <Badge className={cn("capitalize border", statusStyles[change.from])}>{change.from}</Badge>
+                          <span className="text-muted-foreground">→</span>
+                        </>
+                      )}
+                      <Badge className={cn("capitalize border", statusStyles[change.to])}>{change.to}</Badge>
+                    </div>
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      {formatTimestamp(change.changedAt)}
+                      {change.changedBy && ` by ${change.changedBy}`}
+                    </div>
+                    {(change.cancellationReason || change.reason) && (
+                      <div className="mt-1 text-xs">
+                        Reason: {[change.cancellationReason && cancellationReasonLabels[change.cancellationReason], change.reason]
+                          .filter(Boolean)
+                          .join(" — ")}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            </section>
+
+            <Separator />
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">Notes</h3>
+              <RecordNotes
+                entityType="booking"
+                entityId={booking._id}
+                canEdit={canEdit}
+                onNoteAdded={() => {
+                  const noted = { ...booking, noteCount: (booking.noteCount || 0) + 1 }
+                  setBooking(noted)
+                  onBookingChange?.(noted)
+                }}
+              />
+            </section>
+
+            {can("audit:view") && (
+              <>
+                <Separator />
+
+                <section className="space-y-3">
+                  <h3 className="text-sm font-semibold">Audit log</h3>
+                  <RecordAuditLog entityType="booking" entityId={booking._id} />
+                </section>
+              </>
+            )}
+          </div>
+        ) : null}
+        <BookingFormDialog
+          open={isEditing}
+          onOpenChange={setIsEditing}
+          booking={booking}
+          onSaved={(saved) => {
+            setIsEditing(false)
+            setBooking(saved)
+            onBookingChange?.(saved)
+          }}
+        />
+        <RescheduleDialog
+          booking={isRescheduling ? booking : null}
+          onOpenChange={setIsRescheduling}
+          onRescheduled={(updated) => {
+            setIsRescheduling(false)
+            setBooking(updated)
+            onBookingChange?.(updated)
+          }}
+        />
+        <StatusTransitionDialog
+          workflow={bookingWorkflow}
+          transition={isCancelling ? { status: "cancelled", recordCount: 1, apply: cancelBooking } : null}
+          onConfirm={cancelBooking}
+          onCancel={() => setIsCancelling(false)}
+        />
+      </SheetContent>
+    </Sheet>
+  )
+}
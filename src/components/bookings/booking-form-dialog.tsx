@@ -0,0 +1,74 @@
+"use client"
+
+import * as React from "react"
+import { bookingsApi } from "@/lib/api"
+import { Booking, BookingInput } from "@/lib/types"
+import { useToast } from "@/hooks/use-toast"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { BookingForm, BookingFormValues, bookingToFormValues } from "./booking-form"
+
+interface BookingFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Edits this booking when set, otherwise creates a new one
+  booking?: Booking | null
+  // Prefill for new bookings, e.g. from a customer profile
+  initialValues?: Partial<BookingFormValues>
+  onSaved: (booking: Booking) => void
+}
+
+export function BookingFormDialog({ open, onOpenChange, booking, initialValues, onSaved }: BookingFormDialogProps) {
+  const { toast } = useToast()
+  const isEditing = !!booking
+
+  const defaultValues = React.useMemo(
+    () => (booking ? bookingToFormValues(booking) : initialValues),
+    [booking, initialValues]
+  )
+
+  const handleSubmit = async (input: BookingInput) => {
+    const response = booking ? await bookingsApi.update(booking._id, input) : await bookingsApi.create(input)
+    if (!response.success || !response.data) {
+      toast({
+        variant: "destructive",
+        title: isEditing ? "Could not save booking" : "Could not create booking",
+        description: response.error?.message,
+      })
+      return
+    }
+    toast({
+      title: isEditing ? "Booking updated" : "Booking created",
+      description: `${response.data.brand} ${response.data.model} on ${response.data.date}`,
+    })
+    onSaved(response.data)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit booking" : "New booking"}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? "Changes apply to the booking as-is; reschedule it to change the slot, or use the status menu to move it along."
+              : "The booking starts confirmed for the chosen slot."}
+          </DialogDescription>
+        </DialogHeader>
+        <BookingForm
+          defaultValues={defaultValues}
+          keepDate={booking?.date}
+          lockSlot={isEditing}
+          submitLabel={isEditing ? "Save changes" : "Create booking"}
+          onSubmit={handleSubmit}
+          onCancel={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,534 @@
+"use client"
+
+import * as React from "react"
+import { useFieldArray, useForm, useWatch } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { AlertTriangle, Plus, Trash2 } from "lucide-react"
+import { bookingsApi, isAbortError } from "@/lib/api"
+import { Booking, BookingAvailability, BookingInput } from "@/lib/types"
+import { fuelTypes, isKnownFuelType } from "@/lib/schemas"
+import { formatINR } from "@/lib/export"
+import { isSlotPast, toDateKey } from "@/lib/slots"
+import { findServiceCenter, isFuelTypeUnsupported, isOpenAt } from "@/lib/service-centers"
+import { useBookingOptions } from "@/hooks/use-booking-options"
+import { useServiceCenters } from "@/hooks/use-service-centers"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+
+const MIN_VEHICLE_YEAR = 1990
+
+// Agents paste numbers with spaces, dashes or a +91 prefix; the backend stores bare 10 digits
+const normalizePhone = (value: string) => value.replace(/[\s-]/g, "").replace(/^(\+?91)(?=\d{10}$)/, "")
+const isMobileNumber = (value: string) => /^[6-9]\d{9}$/.test(normalizePhone(value))
+
+const cartItemSchema = z.object({
+  packageName: z.string().min(1, "Pick a service"),
+  price: z.number().min(0),
+  quantity: z
+    .number({ invalid_type_error: "Enter a quantity" })
+    .int("Whole numbers only")
+    .min(1, "At least 1"),
+})
+
+// Edits may keep a date that has since passed; new dates must be today or later
+const createBookingFormSchema = (keepDate?: string) =>
+  z
+    .object({
+      brand: z.string().trim().min(1, "Brand is required"),
+      model: z.string().trim().min(1, "Model is required"),
+      year: z
+        .string()
+        .trim()
+        .regex(/^\d{4}$/, "Enter a 4-digit year")
+        .refine(
+          (year) => Number(year) >= MIN_VEHICLE_YEAR && Number(year) <= new Date().getFullYear() + 1,
+          `Year must be between ${MIN_VEHICLE_YEAR} and next year`
+        ),
+      // Records may carry a fuel type outside the list; it has to be replaced before saving
+      fuelType: z.string().refine((value): boolean => isKnownFuelType(value), "Pick a fuel type"),
+      phone: z.string().trim().refine(isMobileNumber, "Enter a valid 10-digit mobile number"),
+      alternatePhone: z
+        .string()
+        .trim()
+        .refine((value) => !value || isMobileNumber(value), "Enter a valid 10-digit mobile number"),
+      address: z.string().trim().min(10, "Enter the full pickup address"),
+      cartItems: z.array(cartItemSchema).min(1, "Add at least one service"),
+      date: z
+        .string()
+        .min(1, "Pick a date")
+        .refine((date) => date === keepDate || date >= toDateKey(new Date()), "Date is in the past"),
+      time: z.string().min(1, "Pick a time slot"),
+      serviceCenter: z.string().min(1, "Pick a service center"),
+    })
+    .superRefine((values, ctx) => {
+      if (values.alternatePhone && normalizePhone(values.alternatePhone) === normalizePhone(values.phone)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["alternatePhone"],
+          message: "Alternate phone must differ from the main number",
+        })
+      }
+      if (values.date !== keepDate && isSlotPast(values.date, values.time)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["time"], message: "This slot has already started" })
+      }
+    })
+
+export type BookingFormValues = z.infer<ReturnType<typeof createBookingFormSchema>>
+
+const emptyValues: BookingFormValues = {
+  brand: "",
+  model: "",
+  year: "",
+  fuelType: "Petrol",
+  phone: "",
+  alternatePhone: "",
+  address: "",
+  cartItems: [],
+  date: "",
+  time: "",
+  serviceCenter: "",
+}
+
+export const bookingToFormValues = (booking: Booking): BookingFormValues => ({
+  brand: booking.brand,
+  model: booking.model,
+  year: booking.year,
+  fuelType: booking.fuelType,
+  phone: booking.phone,
+  alternatePhone: booking.alternatePhone || "",
+  address: booking.address,
+  cartItems: booking.cartItems.map(({ packageName, price, quantity }) => ({ packageName, price, quantity })),
+  date: booking.date,
+  time: booking.time,
+  serviceCenter: booking.serviceCenter,
+})
+
+// The stored value stays selectable even when the catalog no longer lists it
+const withCurrent = (values: string[], current: string) =>
+  current && !values.includes(current) ? [current, ...values] : values
+
+interface BookingFormProps {
+  // Read once when the form mounts
+  defaultValues?: Partial<BookingFormValues>
+  // Arrives after the form mounted, e.g. from the customer's earlier bookings
+  suggestedAddress?: string
+  // Set when editing; relaxes the past-date check for the booking's existing slot
+  keepDate?: string
+  // Edits keep the booking's slot and center; moves go through RescheduleDialog
+  lockSlot?: boolean
+  submitLabel: string
+  onSubmit: (booking: BookingInput) => Promise<void>
+  onCancel: () => void
+}
+
+export function BookingForm({
+  defaultValues,
+  suggestedAddress,
+  keepDate,
+  lockSlot = false,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: BookingFormProps) {
+  const { options, isLoading } = useBookingOptions()
+  const { centers } = useServiceCenters()
+  const schema = React.useMemo(() => createBookingFormSchema(keepDate), [keepDate])
+  const form = useForm<BookingFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { ...emptyValues, ...defaultValues },
+  })
+  const cart = useFieldArray({ control: form.control, name: "cartItems" })
+
+  // Only fills an address the agent hasn't started on, leaving everything else they entered alone
+  React.useEffect(() => {
+    if (suggestedAddress && !form.getValues("address").trim()) {
+      form.setValue("address", suggestedAddress, { shouldValidate: form.formState.isSubmitted })
+    }
+  }, [suggestedAddress, form])
+
+  const [brand, model, fuelType, date, time, serviceCenter, cartItems] = useWatch({
+    control: form.control,
+    name: ["brand", "model", "fuelType", "date", "time", "serviceCenter", "cartItems"],
+  })
+  const totalPrice = cartItems.reduce((sum, item) => sum + item.price * (item.quantity || 0), 0)
+
+  // Full slots are greyed out like in RescheduleDialog; the backend rejects them either way
+  const [availability, setAvailability] = React.useState<BookingAvailability | null>(null)
+  React.useEffect(() => {
+    setAvailability(null)
+    if (lockSlot || !serviceCenter || !date) return
+    const controller = new AbortController()
+    bookingsApi.getAvailability(serviceCenter, date, { signal: controller.signal }).then((response) => {
+      if (isAbortError(response.error)) return
+      if (!response.success || !response.data) return
+      const slots = response.data.slots
+      setAvailability(response.data)
+      // A slot picked before availability loaded may turn out to be full
+      const picked = slots.find((item) => item.time === form.getValues("time"))
+      if (picked && picked.booked >= picked.capacity) form.setValue("time", "")
+    })
+    return () => controller.abort()
+  }, [lockSlot, serviceCenter, date, form])
+  // Closed slots have no capacity and are disabled by opening hours instead
+  const isSlotFull = (slot: string) =>
+    !!availability?.slots.some((item) => item.time === slot && item.capacity > 0 && item.booked >= item.capacity)
+
+  const brands = withCurrent([...new Set(options.vehicles.map((vehicle) => vehicle.brand))], brand)
+  const models = withCurrent(
+    options.vehicles.filter((vehicle) => vehicle.brand === brand).map((vehicle) => vehicle.model),
+    model
+  )
+  const center = findServiceCenter(centers, serviceCenter)
+  const centerNames = withCurrent(
+    centers.filter((item) => item.active).map((item) => item.name),
+    serviceCenter
+  )
+  const priceOf = (packageName: string) => options.packages.find((item) => item.packageName === packageName)?.price
+
+  const handleBrandChange = (value: string) => {
+    form.setValue("brand", value, { shouldValidate: true })
+    if (!options.vehicles.some((vehicle) => vehicle.brand === value && vehicle.model === form.getValues("model"))) {
+      form.setValue("model", "")
+    }
+  }
+
+  const handleModelChange = (value: string) => {
+    form.setValue("model", value, { shouldValidate: true })
+    const vehicle = options.vehicles.find((item) => item.brand === brand && item.model === value)
+    if (vehicle) form.setValue("fuelType", vehicle.fuelType, { shouldValidate: true })
+  }
+
+  const handleSubmit = async (values: BookingFormValues) => {
+    await onSubmit({
+      brand: values.brand,
+      model: values.model,
+      year: values.year,
+      fuelType: values.fuelType,
+      phone: normalizePhone(values.phone),
+      alternatePhone: values.alternatePhone ? normalizePhone(values.alternatePhone) : undefined,
+      address: values.address,
+      date: values.date,
+      time: values.time,
+      serviceCenter: values.serviceCenter,
+      cartItems: values.cartItems,
+    })
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="grid gap-6">
+        <section className="grid gap-4 sm:grid-cols-2">
+          <h3 className="text-sm font-semibold sm:col-span-2">Vehicle</h3>
+          <FormField
+            control={form.control}
+            name="brand"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Brand</FormLabel>
+                <Select value={field.value} onValueChange={handleBrandChange}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Pick a brand" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {brands.map((item) => (
+                      <SelectItem key={item} value={item}>{item}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="model"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Model</FormLabel>
+                <Select value={field.value} onValueChange={handleModelChange} disabled={!brand}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder={brand ? "Pick a model" : "Pick a brand first"} /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {models.map((item) => (
+                      <SelectItem key={item} value={item}>{item}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="year"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Year</FormLabel>
+                <FormControl><Input inputMode="numeric" maxLength={4} {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="fuelType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fuel type</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {fuelTypes.map((fuel) => (
+                      <SelectItem key={fuel} value={fuel}>{fuel}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!isKnownFuelType(field.value) && (
+                  <FormDescription className="text-amber-700">
+                    Recorded as &ldquo;{field.value}&rdquo;; pick the closest fuel type.
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <section className="grid gap-4 sm:grid-cols-2">
+          <h3 className="text-sm font-semibold sm:col-span-2">Customer</h3>
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl><Input type="tel" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="alternatePhone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Alternate phone</FormLabel>
+                <FormControl><Input type="tel" placeholder="Optional" {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="address"
+            render={({ field }) => (
+              <FormItem className="sm:col-span-2">
+                <FormLabel>Pickup address</FormLabel>
+                <FormControl><Textarea rows={2} {...field} /></FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </section>
+
+        <section className="grid gap-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Services</h3>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isLoading}
+              onClick={() => cart.append({ packageName: "", price: 0, quantity: 1 })}
+            >
+              <Plus className="mr-1 h-4 w-4" />
+              Add service
+            </Button>
+          </div>
+          {cart.fields.length === 0 && (
+            <p className="text-sm text-muted-foreground">No services added yet.</p>
+          )}
+          {cart.fields.map((line, index) => {
+            const current = cartItems[index]
+            const taken = cartItems.filter((_, other) => other !== index).map((item) => item.packageName)
+            const choices = withCurrent(
+              options.packages.map((item) => item.packageName),
+              current?.packageName ?? ""
+            )
+            return (
+              <div key={line.id} className="grid grid-cols-[1fr_5rem_6rem_auto] items-start gap-2">
+                <FormField
+                  control={form.control}
+                  name={`cartItems.${index}.packageName`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <Select
+                        value={field.value}
+                        onValueChange={(value) => {
+                          field.onChange(value)
+                          // Lines kept from older bookings retain the price they were sold at
+                          const price = priceOf(value)
+                          if (price !== undefined) form.setValue(`cartItems.${index}.price`, price)
+                        }}
+                      >
+                        <FormControl>
+                          <SelectTrigger><SelectValue placeholder="Pick a service" /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {choices.map((name) => (
+                            <SelectItem key={name} value={name} disabled={taken.includes(name)}>
+                              {name} · {formatINR(priceOf(name) ?? current?.price ?? 0)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`cartItems.${index}.quantity`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          aria-label="Quantity"
+                          {...field}
+                          value={Number.isNaN(field.value) ? "" : field.value}
+                          onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <span className="py-2 text-right text-sm">
+                  {formatINR((current?.price ?? 0) * (current?.quantity || 0))}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Remove service"
+                  onClick={() => cart.remove(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )
+          })}
+          {form.formState.errors.cartItems?.root?.message || form.formState.errors.cartItems?.message ? (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.cartItems?.root?.message || form.formState.errors.cartItems?.message}
+            </p>
+          ) : null}
+          <p className="text-right text-sm font-medium">Total {formatINR(totalPrice)}</p>
+        </section>
+
+        <section className="grid gap-4 sm:grid-cols-3">
+          <h3 className="text-sm font-semibold sm:col-span-3">Appointment</h3>
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl><Input type="date" disabled={lockSlot} {...field} /></FormControl>
+                {lockSlot && <FormDescription>Use Reschedule to move this booking.</FormDescription>}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="time"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Time</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={lockSlot}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Pick a slot" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {withCurrent(options.timeSlots, time).map((slot) => (
+                      <SelectItem
+                        key={slot}
+                        value={slot}
+                        disabled={
+                          slot !== time &&
+                          (isSlotPast(date, slot) || (!!center && !isOpenAt(center, slot)) || isSlotFull(slot))
+                        }
+                      >
+                        {slot}
+                        {isSlotFull(slot) ? " · Full" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="serviceCenter"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Service center</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange} disabled={lockSlot}>
+                  <FormControl>
+                    <SelectTrigger><SelectValue placeholder="Pick a center" /></SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {centerNames.map((name) => (
+                      <SelectItem key={name} value={name}>{name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {center && (
+                  <FormDescription>
+                    {center.opensAt}–{center.closesAt} · {center.address}
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {isFuelTypeUnsupported(centers, serviceCenter, fuelType) && (
+            <div className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-800 sm:col-span-3">
+              <AlertTriangle className="h-4 w-4" />
+              {serviceCenter} does not service {fuelType} vehicles. Pick another center or confirm with the workshop.
+            </div>
+          )}
+        </section>
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={form.formState.isSubmitting || isLoading}>
+            {form.formState.isSubmitting ? "Saving..." : submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
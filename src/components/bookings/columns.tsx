@@ -1,12 +1,21 @@
 "use client"
 
+import * as React from "react"
 import { ColumnDef } from "@tanstack/react-table"
+import { CalendarClock } from "lucide-react"
 import { Booking, BookingStatus } from "@/lib/types"
-import { Badge } from "@/components/ui/badge"
-import { cn } from "@/lib/utils"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { StatusSelect } from "@/components/status-select"
+import { DataTableColumnHeader } from "@/components/data-table-column-header"
+import { flattenCartItems, formatINR } from "@/lib/export"
+import { EntityTableMeta } from "@/components/entity-data-table"
+import { NoteCountCell } from "@/components/notes/note-count-cell"
+import { AssigneeSelect } from "@/components/assignee-select"
+import { SlaAgeCell, slaAgeExportValue } from "@/components/sla-age-cell"
+import { getSelectableStatuses, isTerminalStatus, bookingWorkflow } from "@/lib/workflow"
+import { Button } from "@/components/ui/button"
+import { RescheduleDialog } from "./reschedule-dialog"
 
-const statusStyles: Record<BookingStatus, string> = {
+export const statusStyles: Record<BookingStatus, string> = {
   pending: "bg-amber-100 text-amber-800 border-amber-200 hover:bg-amber-200",
   confirmed: "bg-blue-100 text-blue-800 border-blue-200 hover:bg-blue-200",
   completed: "bg-green-100 text-green-800 border-green-200 hover:bg-green-200",
@@ -14,7 +23,6 @@ const statusStyles: Record<BookingStatus, string> = {
   "not-interested": "bg-gray-100 text-gray-800 border-gray-200 hover:bg-gray-200",
   "to-follow-up": "bg-purple-100 text-purple-800 border-purple-200 hover:bg-purple-200",
   "cold-enq": "bg-orange-100 text-orange-800 border-orange-200 hover:bg-orange-200",
-  "booking-confirmed": "bg-blue-100 text-blue-800 border-blue-200 hover:bg-blue-200", // Same as confirmed
 };
 
 const statusDotStyles: Record<BookingStatus, string> = {
@@ -25,15 +33,18 @@ const statusDotStyles: Record<BookingStatus, string> = {
   "not-interested": "bg-gray-500",
   "to-follow-up": "bg-purple-500",
   "cold-enq": "bg-orange-500",
-  "booking-confirmed": "bg-blue-500",
 };
 
-const bookingStatuses: BookingStatus[] = ["pending", "confirmed", "completed", "cancelled", "not-interested", "to-follow-up", "cold-enq", "booking-confirmed"];
+export const bookingStatuses: BookingStatus[] = ["pending", "confirmed", "completed", "cancelled", "not-interested", "to-follow-up", "cold-enq"];
 
 export const bookingsColumns: ColumnDef<Booking>[] = [
   {
     accessorKey: "brand",
-    header: "Vehicle",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Vehicle" />,
+    meta: {
+      exportHeader: "Vehicle",
+      exportValue: (row) => `${row.brand} ${row.model} (${row.year}, ${row.fuelType})`,
+    },
     cell: ({ row }) => {
       const booking = row.original;
       return (
@@ -47,13 +58,17 @@ export const bookingsColumns: ColumnDef<Booking>[] = [
   {
     accessorKey: "cartItems",
     header: "Services",
+    enableSorting: false,
+    meta: {
+      exportValue: (row) => flattenCartItems(row.cartItems),
+    },
     cell: ({ row }) => {
       const cartItems = row.original.cartItems;
       return (
         <div className="space-y-1">
           {cartItems.map(item => (
             <div key={item.packageName} className="text-sm text-muted-foreground">
-              • {item.packageName}
+              • {item.packageName} × {item.quantity}
             </div>
           ))}
         </div>
@@ -62,20 +77,54 @@ export const bookingsColumns: ColumnDef<Booking>[] = [
   },
   {
     accessorKey: "date",
-    header: "Booking Date & Time",
-    cell: ({ row }) => {
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Booking Date & Time" />,
+    meta: {
+      exportHeader: "Booking Date & Time",
+      exportValue: (row) => `${row.date} ${row.time}`,
+    },
+    cell: function Cell({ row, table }) {
       const booking = row.original;
+      const { patchRow, canEdit } = table.options.meta as EntityTableMeta<BookingStatus, Booking>;
+      const [isRescheduling, setIsRescheduling] = React.useState(false);
+
       return (
-        <div>
-          <div className="font-medium">{booking.date}</div>
-          <div className="text-sm text-muted-foreground">{booking.time}</div>
+        <div className="flex items-start gap-1">
+          <div>
+            <div className="font-medium">{booking.date}</div>
+            <div className="text-sm text-muted-foreground">{booking.time}</div>
+          </div>
+          {canEdit && !isTerminalStatus(bookingWorkflow, booking.status) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              aria-label="Reschedule"
+              onClick={() => setIsRescheduling(true)}
+            >
+              <CalendarClock className="h-4 w-4" />
+            </Button>
+          )}
+          {/* Dialog events bubble through the portal to the row; keep them from opening the drawer */}
+          <div onClick={(event) => event.stopPropagation()}>
+            <RescheduleDialog
+              booking={isRescheduling ? booking : null}
+              onOpenChange={setIsRescheduling}
+              onRescheduled={(updated) => {
+                setIsRescheduling(false);
+                patchRow(updated._id, { date: updated.date, time: updated.time, rescheduleHistory: updated.rescheduleHistory });
+              }}
+            />
+          </div>
         </div>
       )
     }
   },
   {
     accessorKey: "serviceCenter",
-    header: "Service Center",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Service Center" />,
+    meta: {
+      exportHeader: "Service Center",
+    },
     cell: ({ row }) => {
       return (
         <div className="font-medium">
@@ -88,6 +137,10 @@ export const bookingsColumns: ColumnDef<Booking>[] = [
   {
     accessorKey: "phone",
     header: "Phone Number",
+    enableSorting: false,
+    meta: {
+      exportValue: (row) => (row.alternatePhone ? `${row.phone} / ${row.alternatePhone}` : row.phone),
+    },
     cell: ({ row }) => {
       const booking = row.original;
       return (
@@ -106,6 +159,7 @@ export const bookingsColumns: ColumnDef<Booking>[] = [
   {
     accessorKey: "address",
     header: "Address",
+    enableSorting: false,
     cell: ({ row }) => {
       const booking = row.original;
       return (
@@ -117,7 +171,15 @@ export const bookingsColumns: ColumnDef<Booking>[] = [
   },
   {
     accessorKey: "totalPrice",
-    header: () => <div className="text-right">Price</div>,
+    header: ({ column }) => (
+      <div className="flex justify-end">
+        <DataTableColumnHeader column={column} title="Price" />
+      </div>
+    ),
+    meta: {
+      exportHeader: "Price",
+      exportValue: (row) => formatINR(row.totalPrice),
+    },
     cell: ({ row }) => {
       const amount = parseFloat(row.getValue("totalPrice"))
       const formatted = new Intl.NumberFormat("en-IN", {
@@ -128,53 +190,61 @@ export const bookingsColumns: ColumnDef<Booking>[] = [
       return <div className="text-right font-medium">{formatted}</div>
     },
   },
+  {
+    id: "age",
+    header: "Age",
+    enableSorting: false,
+    meta: {
+      exportValue: slaAgeExportValue("booking"),
+    },
+    cell: ({ row }) => <SlaAgeCell record={row.original} entityType="booking" />,
+  },
+  {
+    accessorKey: "assignedTo",
+    header: "Assigned To",
+    enableSorting: false,
+    meta: {
+      exportHeader: "Assigned To",
+      exportValue: (row) => row.assignedTo ?? "",
+    },
+    cell: function Cell({ row, table }) {
+      const { assign, assignees, canEdit } = table.options.meta as EntityTableMeta<BookingStatus>;
+
+      return (
+        <AssigneeSelect
+          value={row.original.assignedTo}
+          assignees={assignees}
+          onChange={(assignedTo) => assign(row.index, assignedTo)}
+          disabled={!canEdit}
+        />
+      );
+    }
+  },
+  {
+    accessorKey: "noteCount",
+    header: "Notes",
+    enableSorting: false,
+    meta: {
+      exportValue: (row) => row.noteCount ?? 0,
+    },
+    cell: ({ row }) => <NoteCountCell count={row.original.noteCount} />,
+  },
   {
     accessorKey: "status",
     header: "Status",
+    enableSorting: false,
     cell: function Cell({ getValue, row, column, table }) {
       const initialValue = getValue() as BookingStatus;
-      const { updateData } = table.options.meta as any;
+      const { updateData, canEdit } = table.options.meta as EntityTableMeta<BookingStatus>;
 
       return (
-        <Select
+        <StatusSelect
           value={initialValue}
-          onValueChange={(value) => updateData(row.index, column.id, value)}
-        >
-          <SelectTrigger
-            className={cn(
-              "w-44 h-9 transition-all duration-200 border-2 font-medium rounded-lg py-1.5 px-3",
-              "focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(var(--status-" + initialValue + "))/40]",
-              "hover:shadow-sm active:scale-95",
-              statusStyles[initialValue]
-            )}
-          >
-            <div className="flex items-center gap-2">
-              <span className="truncate capitalize">
-                <SelectValue />
-              </span>
-            </div>
-          </SelectTrigger>
-          <SelectContent className="rounded-lg border-2 border-gray-200 bg-white shadow-md">
-            {bookingStatuses.map((status) => (
-              <SelectItem
-                key={status}
-                value={status}
-                className="px-3 py-1.5 cursor-pointer transition-colors duration-150 hover:bg-gray-50 focus:bg-gray-50"
-              >
-                <div className="flex items-center gap-2">
-                  <Badge
-                    className={cn(
-                      "capitalize text-sm font-medium w-full justify-start border-0 px-2 py-0.5",
-                      statusStyles[status]
-                    )}
-                  >
-                    {status}
-                  </Badge>
-                </div>
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+          statuses={getSelectableStatuses(bookingWorkflow, initialValue)}
+          styles={statusStyles}
+          onChange={(value) => updateData(row.index, column.id, value)}
+          disabled={!canEdit || isTerminalStatus(bookingWorkflow, initialValue)}
+        />
       );
     },
   },
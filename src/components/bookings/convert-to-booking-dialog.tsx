@@ -0,0 +1,89 @@
+"use client"
+
+import * as React from "react"
+import { bookingsApi, customersApi } from "@/lib/api"
+import { Booking, BookingInput, GeneralRequest, InsuranceRequest } from "@/lib/types"
+import { useToast } from "@/hooks/use-toast"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { BookingForm, BookingFormValues } from "./booking-form"
+
+export type ConvertibleRequest =
+  | { entityType: "insurance_request"; record: InsuranceRequest }
+  | { entityType: "general_request"; record: GeneralRequest }
+
+interface ConvertToBookingDialogProps {
+  request: ConvertibleRequest | null
+  onOpenChange: (open: boolean) => void
+  onConverted: (booking: Booking) => void
+}
+
+export function ConvertToBookingDialog({ request, onOpenChange, onConverted }: ConvertToBookingDialogProps) {
+  const [address, setAddress] = React.useState("")
+  const { toast } = useToast()
+  const record = request?.record
+
+  // Requests carry no address; reuse the one from the customer's earlier bookings
+  React.useEffect(() => {
+    setAddress("")
+    if (!record?.phone) return
+    const controller = new AbortController()
+    customersApi.getByPhone(record.phone, { signal: controller.signal }).then((response) => {
+      if (response.success && response.data) setAddress(response.data.address)
+    })
+    return () => controller.abort()
+  }, [record?.phone])
+
+  const defaultValues = React.useMemo<Partial<BookingFormValues>>(
+    () =>
+      record
+        ? {
+            brand: record.brand,
+            model: record.model,
+            year: record.year,
+            fuelType: record.fuelType,
+            phone: record.phone,
+          }
+        : {},
+    [record]
+  )
+
+  const handleSubmit = async (booking: BookingInput) => {
+    if (!request) return
+    const response = await bookingsApi.create({
+      ...booking,
+      source: { entityType: request.entityType, entityId: request.record._id },
+    })
+    if (!response.success || !response.data) {
+      toast({ variant: "destructive", title: "Could not create booking", description: response.error?.message })
+      return
+    }
+    toast({ title: "Booking created", description: `${response.data.brand} ${response.data.model} on ${response.data.date}` })
+    onConverted(response.data)
+  }
+
+  return (
+    <Dialog open={!!request} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Convert to booking</DialogTitle>
+          <DialogDescription>
+            The request moves to booking-confirmed and links to the new booking.
+          </DialogDescription>
+        </DialogHeader>
+        <BookingForm
+          defaultValues={defaultValues}
+          suggestedAddress={address}
+          submitLabel="Create booking"
+          onSubmit={handleSubmit}
+          onCancel={() => onOpenChange(false)}
+        />
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import * as React from "react"
+import { bookingsApi, isAbortError } from "@/lib/api"
+import { isSlotPast, toDateKey } from "@/lib/slots"
+import { Booking, BookingAvailability } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { useToast } from "@/hooks/use-toast"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface RescheduleDialogProps {
+  booking: Booking | null
+  // Preselected target, e.g. where a booking was dropped on the calendar
+  initialDate?: string
+  initialTime?: string
+  onOpenChange: (open: boolean) => void
+  onRescheduled: (booking: Booking) => void
+}
+
+export function RescheduleDialog({ booking, initialDate, initialTime, onOpenChange, onRescheduled }: RescheduleDialogProps) {
+  const [date, setDate] = React.useState("")
+  const [time, setTime] = React.useState("")
+  const [reason, setReason] = React.useState("")
+  const [availability, setAvailability] = React.useState<BookingAvailability | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+  const { toast } = useToast()
+  const today = toDateKey(new Date())
+  const open = !!booking
+
+  React.useEffect(() => {
+    if (!booking) return
+    setDate(initialDate ?? (booking.date < today ? today : booking.date))
+    setTime(initialTime ?? "")
+    setReason("")
+  }, [booking, initialDate, initialTime, today])
+
+  React.useEffect(() => {
+    setAvailability(null)
+    setError(null)
+    if (!booking || !date) return
+    const controller = new AbortController()
+    bookingsApi.getAvailability(booking.serviceCenter, date, { signal: controller.signal }).then((response) => {
+      if (isAbortError(response.error)) return
+      if (response.success && response.data) {
+        const slots = response.data.slots
+        setAvailability(response.data)
+        // A preselected slot may turn out to be full or already started
+        setTime((current) => {
+          const slot = slots.find((item) => item.time === current)
+          return slot && slot.booked < slot.capacity && !isSlotPast(date, current) ? current : ""
+        })
+      } else {
+        setError(response.error?.message || "Could not load availability")
+      }
+    })
+    return () => controller.abort()
+  }, [booking, date])
+
+  if (!booking) return null
+
+  const isCurrentSlot = (slot: string) => date === booking.date && slot === booking.time
+  const isValid = !!time && !!reason.trim()
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!isValid) return
+    setIsSubmitting(true)
+    const response = await bookingsApi.reschedule(booking._id, { date, time, reason: reason.trim() })
+    setIsSubmitting(false)
+    if (!response.success || !response.data) {
+      toast({ variant: "destructive", title: "Could not reschedule", description: response.error?.message })
+      return
+    }
+    toast({ title: "Booking rescheduled", description: `Now ${response.data.date} at ${response.data.time}` })
+    onRescheduled(response.data)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Reschedule booking</DialogTitle>
+            <DialogDescription>
+              Currently {booking.date} at {booking.time}, {booking.serviceCenter}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="reschedule-date">New date</Label>
+            <Input
+              id="reschedule-date"
+              type="date"
+              min={today}
+              value={date}
+              onChange={(event) => {
+                setDate(event.target.value)
+                setTime("")
+              }}
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label>Available slots</Label>
+            {error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : !availability ? (
+              <p className="text-sm text-muted-foreground">Loading slots...</p>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {availability.slots.map((slot) => {
+                  const remaining = Math.max(slot.capacity - slot.booked, 0)
+                  const isCurrent = isCurrentSlot(slot.time)
+                  const disabled = isCurrent || remaining === 0 || isSlotPast(date, slot.time)
+                  return (
+                    <Button
+                      key={slot.time}
+                      type="button"
+                      variant="outline"
+                      disabled={disabled}
+                      onClick={() => setTime(slot.time)}
+                      className={cn(
+                        "h-auto flex-col py-2",
+                        time === slot.time && "border-primary bg-primary/10"
+                      )}
+                    >
+                      <span>{slot.time}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {isCurrent ? "Current slot" : remaining ? `${remaining} of ${slot.capacity} free` : "Full"}
+                      </span>
+                    </Button>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="reschedule-reason">Reason</Label>
+            <Textarea
+              id="reschedule-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              placeholder="Why is the slot changing?"
+              rows={2}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid || isSubmitting}>
+              {isSubmitting ? "Saving..." : "Reschedule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
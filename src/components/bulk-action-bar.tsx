@@ -0,0 +1,80 @@
+"use client"
+
+import * as React from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { UNASSIGNED_VALUE } from "@/components/assignee-select"
+import { AdminUser } from "@/lib/types"
+
+interface BulkActionBarProps<TStatus extends string> {
+  selectedCount: number
+  statuses: readonly TStatus[]
+  isUpdating: boolean
+  onSetStatus: (status: TStatus) => void
+  assignees: AdminUser[]
+  onAssign: (assignedTo: string | null) => void
+  onClear: () => void
+}
+
+export function BulkActionBar<TStatus extends string>({
+  selectedCount,
+  statuses,
+  isUpdating,
+  onSetStatus,
+  assignees,
+  onAssign,
+  onClear,
+}: BulkActionBarProps<TStatus>) {
+  // Reset the picker after every run so the same status can be applied twice in a row
+  const [pickerKey, setPickerKey] = React.useState(0)
+
+  if (selectedCount === 0) return null
+
+  return (
+    <div className="flex items-center gap-3 border-t bg-muted/50 px-4 py-2 text-sm">
+      <span className="font-medium">{selectedCount} selected</span>
+      <Select
+        key={pickerKey}
+        disabled={isUpdating}
+        onValueChange={(value) => {
+          onSetStatus(value as TStatus)
+          setPickerKey((k) => k + 1)
+        }}
+      >
+        <SelectTrigger className="h-8 w-[180px] bg-background">
+          <SelectValue placeholder={isUpdating ? "Updating..." : "Set status..."} />
+        </SelectTrigger>
+        <SelectContent>
+          {statuses.map((status) => (
+            <SelectItem key={status} value={status} className="capitalize">
+              {status}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        key={`assign-${pickerKey}`}
+        disabled={isUpdating}
+        onValueChange={(value) => {
+          onAssign(value === UNASSIGNED_VALUE ? null : value)
+          setPickerKey((k) => k + 1)
+        }}
+      >
+        <SelectTrigger className="h-8 w-[180px] bg-background">
+          <SelectValue placeholder={isUpdating ? "Updating..." : "Assign to..."} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED_VALUE}>Unassigned</SelectItem>
+          {assignees.map((admin) => (
+            <SelectItem key={admin.username} value={admin.username}>
+              {admin.username}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={onClear} disabled={isUpdating}>
+        Clear selection
+      </Button>
+    </div>
+  )
+}
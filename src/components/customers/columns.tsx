@@ -1,18 +1,28 @@
 "use client"
 
+import Link from "next/link"
 import { ColumnDef } from "@tanstack/react-table"
 import { Customer } from "@/lib/types"
 import { format } from "date-fns"
+import { formatExportDate } from "@/lib/export"
 
 export const customerColumns: ColumnDef<Customer>[] = [
   {
     accessorKey: "name",
     header: "Customer",
+    meta: {
+      exportValue: (row) => `${row.name} (${row.phone})`,
+    },
     cell: ({ row }) => {
         const customer = row.original;
         return (
             <div>
-                <div className="font-medium">{customer.name}</div>
+                <Link
+                    href={`/dashboard/customers/${encodeURIComponent(customer.phone)}`}
+                    className="font-medium hover:underline"
+                >
+                    {customer.name}
+                </Link>
                 <div className="text-sm text-muted-foreground">{customer.phone}</div>
             </div>
         )
@@ -25,6 +35,9 @@ export const customerColumns: ColumnDef<Customer>[] = [
   {
     accessorKey: "vehicles",
     header: "Vehicles",
+    meta: {
+      exportValue: (row) => row.vehicles.map((v) => `${v.brand} ${v.model} (${v.year})`).join("; "),
+    },
     cell: ({ row }) => {
         const vehicles = row.original.vehicles;
         return (
@@ -48,6 +61,9 @@ export const customerColumns: ColumnDef<Customer>[] = [
   {
     accessorKey: "lastSeen",
     header: "Last Activity",
+    meta: {
+      exportValue: (row) => formatExportDate(row.lastSeen),
+    },
      cell: ({ row }) => {
       const date = new Date(row.getValue("lastSeen"))
       const formatted = format(date, "MMM dd, yyyy");
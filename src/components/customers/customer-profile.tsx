@@ -0,0 +1,382 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { ArrowLeft, Calendar, Car, IndianRupee, MessageSquare, Plus } from "lucide-react"
+import {
+  Booking,
+  BookingStatus,
+  Customer,
+  GeneralRequest,
+  GeneralRequestStatus,
+  InsuranceRequest,
+  InsuranceStatus,
+} from "@/lib/types"
+import {
+  bookingsApi,
+  customersApi,
+  fetchAllPages,
+  generalRequestsApi,
+  insuranceRequestsApi,
+  isAbortError,
+  StatusUpdateDetails,
+} from "@/lib/api"
+import {
+  bookingWorkflow,
+  generalRequestWorkflow,
+  getSelectableStatuses,
+  insuranceWorkflow,
+  isTerminalStatus,
+  needsTransitionPrompt,
+  statusWorkflows,
+} from "@/lib/workflow"
+import { Permission } from "@/lib/permissions"
+import { usePermissions } from "@/hooks/use-permissions"
+import { useToast } from "@/hooks/use-toast"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { StatusSelect } from "@/components/status-select"
+import { BookingFormDialog } from "@/components/bookings/booking-form-dialog"
+import { BookingFormValues } from "@/components/bookings/booking-form"
+import { PendingTransition, StatusTransitionDialog } from "@/components/status-transition-dialog"
+import { statusStyles as bookingStatusStyles } from "@/components/bookings/columns"
+import { statusStyles as insuranceStatusStyles } from "@/components/insurance-requests/columns"
+import { statusStyles as generalStatusStyles } from "@/components/requests/columns"
+
+const auditEntityTypes = {
+  booking: "booking",
+  insurance: "insurance_request",
+  general: "general_request",
+} as const
+
+const editPermissions: Record<TimelineEntry["kind"], Permission> = {
+  booking: "bookings:edit",
+  insurance: "insurance:edit",
+  general: "requests:edit",
+}
+
+type TimelineEntry =
+  | { kind: "booking"; record: Booking }
+  | { kind: "insurance"; record: InsuranceRequest }
+  | { kind: "general"; record: GeneralRequest }
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: "INR", maximumFractionDigits: 0 }).format(amount)
+
+const formatDate = (value: string) => {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : format(date, "MMM dd, yyyy")
+}
+
+// Only serviced bookings count, the same rule as the dashboard's revenue
+const lifetimeSpend = (bookings: Booking[]) =>
+  bookings.filter((b) => b.status === "completed").reduce((sum, b) => sum + (b.totalPrice || 0), 0)
+
+function TimelineItem({ entry, canEdit, onStatusChange }: {
+  entry: TimelineEntry
+  canEdit: boolean
+  onStatusChange: (entry: TimelineEntry, status: string) => void
+}) {
+  const { record } = entry
+
+  return (
+    <li className="flex flex-col gap-3 rounded-lg border p-4 sm:flex-row sm:items-center sm:justify-between">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Badge variant={entry.kind === "booking" ? "default" : entry.kind === "insurance" ? "secondary" : "outline"}>
+            {entry.kind === "booking" ? "Booking" : entry.kind === "insurance" ? "Insurance" : "Request"}
+          </Badge>
+          <span className="text-xs text-muted-foreground">{formatDate(record.createdAt)}</span>
+        </div>
+        <div className="font-medium">{record.brand} {record.model} ({record.year})</div>
+        {entry.kind === "booking" && (
+          <div className="text-sm text-muted-foreground">
+            {entry.record.cartItems.map((item) => item.packageName).join(", ")} • {formatCurrency(entry.record.totalPrice)}
+            {" "}•{" "}
+            <Link href={`/dashboard/bookings/${entry.record._id}`} className="underline underline-offset-2">
+              View booking
+            </Link>
+          </div>
+        )}
+        {entry.kind === "insurance" && (
+          <div className="text-sm text-muted-foreground">Policy: {entry.record.companyPolicyName}</div>
+        )}
+      </div>
+      {entry.kind === "booking" ? (
+        <StatusSelect<BookingStatus>
+          value={entry.record.status}
+          statuses={getSelectableStatuses(bookingWorkflow, entry.record.status)}
+          styles={bookingStatusStyles}
+          onChange={(status) => onStatusChange(entry, status)}
+          disabled={!canEdit || isTerminalStatus(bookingWorkflow, entry.record.status)}
+        />
+      ) : entry.kind === "insurance" ? (
+        <StatusSelect<InsuranceStatus>
+          value={entry.record.status}
+          statuses={getSelectableStatuses(insuranceWorkflow, entry.record.status)}
+          styles={insuranceStatusStyles}
+          onChange={(status) => onStatusChange(entry, status)}
+          disabled={!canEdit || isTerminalStatus(insuranceWorkflow, entry.record.status)}
+        />
+      ) : (
+        <StatusSelect<GeneralRequestStatus>
+          value={entry.record.status}
+          statuses={getSelectableStatuses(generalRequestWorkflow, entry.record.status)}
+          styles={generalStatusStyles}
+          onChange={(status) => onStatusChange(entry, status)}
+          disabled={!canEdit || isTerminalStatus(generalRequestWorkflow, entry.record.status)}
+        />
+      )}
+    </li>
+  )
+}
+
+export function CustomerProfile({ phone }: { phone: string }) {
+  const [customer, setCustomer] = React.useState<Customer | null>(null)
+  const [bookings, setBookings] = React.useState<Booking[]>([])
+  const [insuranceRequests, setInsuranceRequests] = React.useState<InsuranceRequest[]>([])
+  const [generalRequests, setGeneralRequests] = React.useState<GeneralRequest[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  const [pendingTransition, setPendingTransition] = React.useState<
+    (PendingTransition<string> & { kind: TimelineEntry["kind"] }) | null
+  >(null)
+  const [isBooking, setIsBooking] = React.useState(false)
+  const { can } = usePermissions()
+  const { toast } = useToast()
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const fetchProfile = async () => {
+      setIsLoading(true)
+      // The whole history, however long; spend and the timeline are computed from it
+      const query = { phone }
+      const [customerResponse, bookingsResponse, insuranceResponse, requestsResponse] = await Promise.all([
+        customersApi.getByPhone(phone, { signal }),
+        fetchAllPages(bookingsApi.getAll, query, { signal }),
+        fetchAllPages(insuranceRequestsApi.getAll, query, { signal }),
+        fetchAllPages(generalRequestsApi.getAll, query, { signal }),
+      ])
+      if (isAbortError(customerResponse.error)) return
+
+      if (customerResponse.success && customerResponse.data) setCustomer(customerResponse.data)
+      if (bookingsResponse.success && bookingsResponse.data) setBookings(bookingsResponse.data.items)
+      if (insuranceResponse.success && insuranceResponse.data) setInsuranceRequests(insuranceResponse.data.items)
+      if (requestsResponse.success && requestsResponse.data) setGeneralRequests(requestsResponse.data.items)
+
+      const failedHistory = [bookingsResponse, insuranceResponse, requestsResponse].find((response) => !response.success)
+      if (!customerResponse.success) setError(customerResponse.error?.message || "Failed to load customer")
+      else if (failedHistory) setError(failedHistory.error?.message || "Failed to load the customer's history")
+      setIsLoading(false)
+    }
+
+    fetchProfile()
+    return () => controller.abort()
+  }, [phone])
+
+  const timeline = React.useMemo<TimelineEntry[]>(
+    () =>
+      [
+        ...bookings.map((record) => ({ kind: "booking" as const, record })),
+        ...insuranceRequests.map((record) => ({ kind: "insurance" as const, record })),
+        ...generalRequests.map((record) => ({ kind: "general" as const, record })),
+      ].sort((a, b) => new Date(b.record.createdAt).getTime() - new Date(a.record.createdAt).getTime()),
+    [bookings, insuranceRequests, generalRequests]
+  )
+
+  // New bookings start from the customer's most recent vehicle
+  const newBookingValues = React.useMemo<Partial<BookingFormValues>>(() => {
+    const latest = timeline[0]?.record
+    return {
+      phone,
+      address: customer?.address || "",
+      ...(latest && { brand: latest.brand, model: latest.model, year: latest.year, fuelType: latest.fuelType }),
+    }
+  }, [phone, customer?.address, timeline])
+
+  // Optimistic update with rollback, matching the data tables
+  const handleStatusChange = async (entry: TimelineEntry, status: string, details?: StatusUpdateDetails) => {
+    if (!details && needsTransitionPrompt(statusWorkflows[auditEntityTypes[entry.kind]], status)) {
+      setPendingTransition({
+        kind: entry.kind,
+        status,
+        recordCount: 1,
+        apply: (transitionDetails) => handleStatusChange(entry, status, transitionDetails),
+      })
+      return
+    }
+    const { _id, status: previous } = entry.record
+    const setStatus = (next: string) => {
+      if (entry.kind === "booking") {
+        setBookings((old) => old.map((b) => (b._id === _id ? { ...b, status: next as BookingStatus } : b)))
+      } else if (entry.kind === "insurance") {
+        setInsuranceRequests((old) => old.map((i) => (i._id === _id ? { ...i, status: next as InsuranceStatus } : i)))
+      } else {
+        setGeneralRequests((old) => old.map((g) => (g._id === _id ? { ...g, status: next as GeneralRequestStatus } : g)))
+      }
+    }
+
+    setStatus(status)
+    const api = entry.kind === "booking" ? bookingsApi : entry.kind === "insurance" ? insuranceRequestsApi : generalRequestsApi
+    const response = await api.updateStatus(_id, status, details)
+    if (!response.success) {
+      console.error("Failed to update status:", response.error)
+      setStatus(previous)
+      toast({ variant: "destructive", title: "Status not updated", description: response.error?.message })
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-lg">Loading customer...</div>
+      </div>
+    )
+  }
+
+  const vehicles = customer?.vehicles?.length
+    ? customer.vehicles
+    : Array.from(
+        new Map(timeline.map(({ record }) => [`${record.brand}-${record.model}-${record.year}`, record])).values()
+      ).map(({ brand, model, year }) => ({ brand, model, year }))
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" asChild>
+          <Link href="/dashboard/customers" aria-label="Back to customers">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-semibold text-primary">{customer?.name || phone}</h1>
+          <p className="text-sm text-muted-foreground">
+            {phone}
+            {customer?.address && ` • ${customer.address}`}
+            {customer?.lastSeen && ` • Last seen ${formatDate(customer.lastSeen)}`}
+          </p>
+        </div>
+        {can("bookings:edit") && (
+          <Button className="ml-auto" onClick={() => setIsBooking(true)}>
+            <Plus className="mr-1 h-4 w-4" />
+            New booking
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="text-sm text-red-600">Error: {error}</div>}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {can("revenue:view") && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Lifetime Spend</CardTitle>
+              <div className="p-2 bg-green-500/10 rounded-md">
+                <IndianRupee className="h-4 w-4 text-green-600" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold text-green-600">{formatCurrency(lifetimeSpend(bookings))}</div>
+              <p className="text-xs text-muted-foreground">Across completed bookings</p>
+            </CardContent>
+          </Card>
+        )}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Bookings</CardTitle>
+            <div className="p-2 bg-primary/10 rounded-md">
+              <Calendar className="h-4 w-4 text-primary" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{customer?.totalBookings ?? bookings.length}</div>
+            <p className="text-xs text-muted-foreground">All-time bookings</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Requests</CardTitle>
+            <div className="p-2 bg-yellow-500/10 rounded-md">
+              <MessageSquare className="h-4 w-4 text-yellow-500" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {customer?.totalRequests ?? insuranceRequests.length + generalRequests.length}
+            </div>
+            <p className="text-xs text-muted-foreground">Insurance & general enquiries</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-3">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Car className="h-5 w-5" />
+              Vehicles
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {vehicles.length ? (
+              <ul className="space-y-2 text-sm">
+                {vehicles.map((v) => (
+                  <li key={`${v.brand}-${v.model}-${v.year}`} className="font-medium">
+                    {v.brand} {v.model} <span className="text-muted-foreground">({v.year})</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No vehicles on record.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {timeline.length ? (
+              <ol className="space-y-3">
+                {timeline.map((entry) => (
+                  <TimelineItem
+                    key={`${entry.kind}-${entry.record._id}`}
+                    entry={entry}
+                    canEdit={can(editPermissions[entry.kind])}
+                    onStatusChange={handleStatusChange}
+                  />
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-muted-foreground">No bookings or requests yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <StatusTransitionDialog
+        workflow={statusWorkflows[auditEntityTypes[pendingTransition?.kind ?? "booking"]]}
+        transition={pendingTransition}
+        onConfirm={(details) => {
+          pendingTransition?.apply(details)
+          setPendingTransition(null)
+        }}
+        onCancel={() => setPendingTransition(null)}
+      />
+      <BookingFormDialog
+        open={isBooking}
+        onOpenChange={setIsBooking}
+        initialValues={newBookingValues}
+        onSaved={(booking) => {
+          setIsBooking(false)
+          setBookings((old) => [booking, ...old])
+        }}
+      />
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import {
   getFilteredRowModel,
   getPaginationRowModel,
   useReactTable,
+  VisibilityState,
 } from "@tanstack/react-table";
 
 import {
@@ -21,6 +22,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Customer } from "@/lib/types";
 import { customerColumns } from "./columns";
+import { DataTableViewOptions } from "@/components/data-table-view-options";
+import { DataTableExportMenu } from "@/components/data-table-export-menu";
+import { ExportFormat, exportRows, getExportColumns } from "@/lib/export";
 
 interface DataTableProps {
   data: Customer[];
@@ -28,6 +32,7 @@ interface DataTableProps {
 
 export default function CustomerDataTable({ data }: DataTableProps) {
   const [globalFilter, setGlobalFilter] = React.useState("");
+  const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({});
   
   const columns = customerColumns;
 
@@ -39,8 +44,10 @@ export default function CustomerDataTable({ data }: DataTableProps) {
     getFilteredRowModel: getFilteredRowModel(),
     state: {
       globalFilter,
+      columnVisibility,
     },
     onGlobalFilterChange: setGlobalFilter,
+    onColumnVisibilityChange: setColumnVisibility,
     initialState: {
         pagination: {
             pageSize: 7,
@@ -48,6 +55,12 @@ export default function CustomerDataTable({ data }: DataTableProps) {
     }
   });
 
+  // Customers are filtered client-side, so every matching row is already loaded
+  const handleExport = async (exportFormat: ExportFormat) => {
+    const rows = table.getPrePaginationRowModel().rows.map((row) => row.original);
+    await exportRows(rows, getExportColumns(table), exportFormat, "customers");
+  };
+
   return (
     <div className="rounded-lg border bg-card text-card-foreground shadow-sm">
       <div className="flex items-center p-4 gap-4">
@@ -57,6 +70,10 @@ export default function CustomerDataTable({ data }: DataTableProps) {
           onChange={(event) => setGlobalFilter(event.target.value)}
           className="max-w-sm"
         />
+        <div className="ml-auto flex items-center gap-2">
+          <DataTableViewOptions table={table} />
+          <DataTableExportMenu onExport={handleExport} />
+        </div>
       </div>
       <div className="border-t">
         <Table>
@@ -98,7 +115,7 @@ export default function CustomerDataTable({ data }: DataTableProps) {
             ) : (
               <TableRow>
                 <TableCell
-                  colSpan={columns.length}
+                  colSpan={table.getVisibleLeafColumns().length}
                   className="h-24 text-center"
                 >
                   No results.
@@ -0,0 +1,52 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Booking } from "@/lib/types";
+import { cancellationReasonLabels, cancellationReasonValues } from "@/lib/statuses";
+
+interface CancellationReasonsChartProps {
+  bookings: Booking[];
+}
+
+// Bookings cancelled before categories existed
+const UNCATEGORISED = "Not recorded";
+
+export default function CancellationReasonsChart({ bookings }: CancellationReasonsChartProps) {
+  const cancelled = bookings.filter((booking) => booking.status === "cancelled");
+  const counts = cancelled.reduce((acc, booking) => {
+    const label = booking.cancellationReason ? cancellationReasonLabels[booking.cancellationReason] : UNCATEGORISED;
+    acc[label] = (acc[label] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const data = [...cancellationReasonValues.map((value) => cancellationReasonLabels[value]), UNCATEGORISED]
+    .map((name) => ({ name, value: counts[name] || 0 }))
+    .filter((entry) => entry.value > 0)
+    .sort((a, b) => b.value - a.value);
+
+  if (!data.length) {
+    return (
+      <div className="flex h-[300px] items-center justify-center text-sm text-muted-foreground">
+        No cancellations in this period
+      </div>
+    );
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <BarChart data={data} layout="vertical" margin={{ left: 24 }}>
+        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+        <XAxis type="number" allowDecimals={false} stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="name" width={120} stroke="#888888" fontSize={12} tickLine={false} axisLine={false} />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: 'hsl(var(--background))',
+            border: '1px solid hsl(var(--border))',
+            borderRadius: 'var(--radius)',
+          }}
+          formatter={(value: number) => [`${value} (${Math.round((value / cancelled.length) * 100)}%)`, 'Cancelled']}
+        />
+        <Bar dataKey="value" fill="hsl(var(--status-cancelled))" radius={[0, 4, 4, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import * as React from "react"
+import { CalendarIcon } from "lucide-react"
+import { DateRange } from "react-day-picker"
+import { Button } from "@/components/ui/button"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { cn } from "@/lib/utils"
+import {
+  DashboardDateRange,
+  DateRangePreset,
+  dateRangePresetLabels,
+  formatRangeLabel,
+  getCustomRange,
+  getPresetRange,
+} from "@/lib/date-range"
+
+interface DateRangePickerProps {
+  value: DashboardDateRange
+  onChange: (range: DashboardDateRange) => void
+}
+
+const presets = Object.keys(dateRangePresetLabels) as Exclude<DateRangePreset, "custom">[]
+
+export function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  const [open, setOpen] = React.useState(false)
+  const [draft, setDraft] = React.useState<DateRange | undefined>({ from: value.from, to: value.to })
+
+  React.useEffect(() => {
+    if (open) setDraft({ from: value.from, to: value.to })
+  }, [open, value])
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {presets.map((preset) => (
+        <Button
+          key={preset}
+          variant={value.preset === preset ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(getPresetRange(preset))}
+        >
+          {dateRangePresetLabels[preset]}
+        </Button>
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={value.preset === "custom" ? "default" : "outline"}
+            size="sm"
+            className={cn("justify-start font-normal")}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value.preset === "custom" ? formatRangeLabel(value) : "Custom"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="end">
+          <Calendar
+            mode="range"
+            numberOfMonths={2}
+            selected={draft}
+            onSelect={setDraft}
+            defaultMonth={draft?.from}
+            disabled={{ after: new Date() }}
+          />
+          <div className="flex justify-end gap-2 border-t p-3">
+            <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={!draft?.from}
+              onClick={() => {
+                if (!draft?.from) return
+                onChange(getCustomRange(draft.from, draft.to ?? draft.from))
+                setOpen(false)
+              }}
+            >
+              Apply
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  )
+}
@@ -0,0 +1,115 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { format, formatDistanceToNow } from "date-fns"
+import { BellRing } from "lucide-react"
+import { FollowUpBucket } from "@/lib/follow-ups"
+import { AuditEntityType, FollowUpItem } from "@/lib/types"
+import { cn } from "@/lib/utils"
+import { useFollowUps } from "@/hooks/use-follow-ups"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+
+const bucketLabels: Record<FollowUpBucket, string> = {
+  overdue: "Overdue",
+  today: "Today",
+  upcoming: "Upcoming",
+}
+
+const bucketStyles: Record<FollowUpBucket, string> = {
+  overdue: "text-red-600",
+  today: "text-amber-600",
+  upcoming: "text-muted-foreground",
+}
+
+const entityLabels: Record<AuditEntityType, string> = {
+  booking: "Booking",
+  insurance_request: "Insurance",
+  general_request: "Request",
+}
+
+// Bookings have their own page; requests are worked from the customer profile
+const getItemHref = (item: FollowUpItem) =>
+  item.entityType === "booking"
+    ? `/dashboard/bookings/${item.entityId}`
+    : `/dashboard/customers/${encodeURIComponent(item.phone)}`
+
+function FollowUpRow({ item, bucket }: { item: FollowUpItem; bucket: FollowUpBucket }) {
+  const dueAt = new Date(item.followUp.dueAt)
+
+  return (
+    <li>
+      <Link href={getItemHref(item)} className="block rounded-md border p-3 transition-colors hover:bg-muted/50">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-medium">{item.brand} {item.model}</span>
+          <Badge variant={item.entityType === "booking" ? "default" : item.entityType === "insurance_request" ? "secondary" : "outline"}>
+            {entityLabels[item.entityType]}
+          </Badge>
+        </div>
+        <div className="text-xs text-muted-foreground">{item.phone}</div>
+        <div className={cn("mt-1 text-xs font-medium", bucketStyles[bucket])}>
+          {format(dueAt, bucket === "today" ? "h:mm a" : "MMM dd, h:mm a")} • {formatDistanceToNow(dueAt, { addSuffix: true })}
+        </div>
+        {item.followUp.note && <p className="mt-1 text-sm">{item.followUp.note}</p>}
+      </Link>
+    </li>
+  )
+}
+
+interface FollowUpsDueProps {
+  // Items shown per bucket before "Show all"; omit to show everything
+  limit?: number
+}
+
+export function FollowUpsDue({ limit }: FollowUpsDueProps) {
+  const { buckets, isLoading, error } = useFollowUps()
+  const [expanded, setExpanded] = React.useState(false)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Follow-ups due
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading follow-ups...</div>
+        ) : error ? (
+          <div className="py-6 text-center text-sm text-red-600">Error: {error}</div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-3">
+            {(Object.keys(bucketLabels) as FollowUpBucket[]).map((bucket) => {
+              const items = buckets[bucket]
+              const visible = limit && !expanded ? items.slice(0, limit) : items
+              return (
+                <section key={bucket} className="space-y-2">
+                  <h3 className={cn("text-sm font-semibold", bucketStyles[bucket])}>
+                    {bucketLabels[bucket]} ({items.length})
+                  </h3>
+                  {visible.length ? (
+                    <ul className="space-y-2">
+                      {visible.map((item) => (
+                        <FollowUpRow key={`${item.entityType}-${item.entityId}`} item={item} bucket={bucket} />
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Nothing {bucket === "upcoming" ? "this week" : bucket === "today" ? "for today" : "overdue"}.</p>
+                  )}
+                </section>
+              )
+            })}
+          </div>
+        )}
+        {limit && !expanded && Object.values(buckets).some((items) => items.length > limit) && (
+          <Button variant="link" className="mt-2 px-0" onClick={() => setExpanded(true)}>
+            Show all
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Booking, GeneralRequest, InsuranceRequest, SlaRules } from "@/lib/types";
+import { getDailySlaCompliance } from "@/lib/sla";
+
+interface SlaComplianceChartProps {
+  bookings: Booking[];
+  insuranceRequests: InsuranceRequest[];
+  generalRequests: GeneralRequest[];
+  rules: SlaRules;
+  from: Date;
+  to: Date;
+}
+
+// Compliance the team is expected to hold; drawn as a dashed guide line
+const COMPLIANCE_GOAL = 90;
+
+export default function SlaComplianceChart({ bookings, insuranceRequests, generalRequests, rules, from, to }: SlaComplianceChartProps) {
+  const data = getDailySlaCompliance(
+    [
+      ...bookings.map((record) => ({ entityType: 'booking' as const, record })),
+      ...insuranceRequests.map((record) => ({ entityType: 'insurance_request' as const, record })),
+      ...generalRequests.map((record) => ({ entityType: 'general_request' as const, record })),
+    ],
+    rules,
+    from,
+    to
+  );
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+        <XAxis
+          dataKey="label"
+          stroke="#888888"
+          fontSize={12}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis
+          stroke="#888888"
+          fontSize={12}
+          tickLine={false}
+          axisLine={false}
+          domain={[0, 100]}
+          tickFormatter={(value) => `${value}%`}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: 'hsl(var(--background))',
+            border: '1px solid hsl(var(--border))',
+            borderRadius: 'var(--radius)',
+          }}
+          formatter={(value, _name, item) => [
+            `${value}% (${item.payload.total - item.payload.breached}/${item.payload.total} on time)`,
+            'Compliance',
+          ]}
+        />
+        <ReferenceLine y={COMPLIANCE_GOAL} stroke="#16a34a" strokeDasharray="4 4" />
+        <Line
+          type="monotone"
+          dataKey="compliance"
+          stroke="hsl(var(--primary))"
+          strokeWidth={2}
+          dot={{ r: 3, fill: "hsl(var(--primary))" }}
+        />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { Column } from "@tanstack/react-table"
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+
+interface DataTableColumnHeaderProps<TData, TValue> {
+  column: Column<TData, TValue>
+  title: string
+  className?: string
+}
+
+export function DataTableColumnHeader<TData, TValue>({ column, title, className }: DataTableColumnHeaderProps<TData, TValue>) {
+  if (!column.getCanSort()) {
+    return <div className={className}>{title}</div>
+  }
+
+  const sorted = column.getIsSorted()
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className={cn("-ml-3 h-8 font-bold text-black", className)}
+      onClick={() => column.toggleSorting(sorted === "asc")}
+    >
+      {title}
+      {sorted === "desc" ? (
+        <ArrowDown className="ml-1 h-4 w-4" />
+      ) : sorted === "asc" ? (
+        <ArrowUp className="ml-1 h-4 w-4" />
+      ) : (
+        <ArrowUpDown className="ml-1 h-4 w-4 opacity-50" />
+      )}
+    </Button>
+  )
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import * as React from "react"
+import { Download, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ExportFormat } from "@/lib/export"
+
+export type ExportScope = "page" | "all"
+
+interface DataTableExportMenuProps {
+  onExport: (format: ExportFormat, scope: ExportScope) => Promise<void>
+  // Server-paginated tables can export either the visible page or every page
+  paginated?: boolean
+  // When set, a running export shows a button that calls it instead of a disabled one
+  onCancel?: () => void
+}
+
+export function DataTableExportMenu({ onExport, paginated = false, onCancel }: DataTableExportMenuProps) {
+  const [isExporting, setIsExporting] = React.useState(false)
+
+  const handleExport = async (format: ExportFormat, scope: ExportScope) => {
+    setIsExporting(true)
+    try {
+      await onExport(format, scope)
+    } catch (error) {
+      console.error("Export failed:", error)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  if (isExporting && onCancel) {
+    return (
+      <Button variant="outline" size="sm" className="h-10" onClick={onCancel}>
+        <X className="mr-2 h-4 w-4" />
+        Cancel export
+      </Button>
+    )
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-10" disabled={isExporting}>
+          <Download className="mr-2 h-4 w-4" />
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {paginated ? (
+          <>
+            <DropdownMenuLabel>Current page</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => handleExport("csv", "page")}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExport("xlsx", "page")}>Excel (.xlsx)</DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>All matching rows</DropdownMenuLabel>
+            <DropdownMenuItem onSelect={() => handleExport("csv", "all")}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExport("xlsx", "all")}>Excel (.xlsx)</DropdownMenuItem>
+          </>
+        ) : (
+          <>
+            <DropdownMenuItem onSelect={() => handleExport("csv", "all")}>CSV</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => handleExport("xlsx", "all")}>Excel (.xlsx)</DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,724 @@
+"use client";
+
+import * as React from "react";
+import {
+  ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  PaginationState,
+  RowSelectionState,
+  VisibilityState,
+  SortingState,
+  useReactTable,
+} from "@tanstack/react-table";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ApiResponse, ListQuery, RequestOptions, StatusUpdateDetails, isAbortError } from "@/lib/api";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useSession } from "@/hooks/use-session";
+import { adminCan, useAdmins } from "@/hooks/use-admins";
+import { BulkActionBar } from "@/components/bulk-action-bar";
+import { PendingTransition, StatusTransitionDialog } from "@/components/status-transition-dialog";
+import { DataTableViewOptions } from "@/components/data-table-view-options";
+import { DataTableExportMenu, ExportScope } from "@/components/data-table-export-menu";
+import { ExportFormat, exportRows, getExportColumns } from "@/lib/export";
+import { AdminUser } from "@/lib/types";
+import { Permission } from "@/lib/permissions";
+import { getRequiredFields, getSharedNextStatuses, canTransition, needsTransitionPrompt, StatusWorkflow } from "@/lib/workflow";
+
+const PAGE_SIZES = [10, 20, 50, 100];
+const EXPORT_BATCH_SIZE = 100;
+
+export interface EntityPage<TData> {
+  rows: TData[];
+  total: number;
+}
+
+export type EntityFetcher<TData> = (
+  query: ListQuery,
+  options: RequestOptions
+) => Promise<ApiResponse<EntityPage<TData>>>;
+
+export type EntityStatusUpdater<TStatus extends string> = (
+  id: string,
+  status: TStatus,
+  details?: StatusUpdateDetails
+) => Promise<ApiResponse<unknown>>;
+
+// Pass null to unassign
+export type EntityAssigner = (id: string, assignedTo: string | null) => Promise<ApiResponse<unknown>>;
+
+export type AssigneeFilter = "all" | "mine" | "unassigned";
+
+export interface EntityTableMeta<TStatus extends string = string, TData = unknown> {
+  updateData: (rowIndex: number, columnId: string, value: TStatus) => Promise<void>;
+  // For edits made outside the table, e.g. a reschedule dialog opened from a cell
+  patchRow: (id: string, patch: Partial<TData>) => void;
+  assign: (rowIndex: number, assignedTo: string | null) => Promise<void>;
+  // Admins allowed to work this kind of record
+  assignees: AdminUser[];
+  canEdit: boolean;
+}
+
+type EntityRecord<TStatus extends string> = { _id: string; status: TStatus; assignedTo?: string | null };
+
+interface EntityDataTableProps<TData extends EntityRecord<TStatus>, TStatus extends string> {
+  // Used as the global cache namespace and in log messages, e.g. "bookings"
+  entityName: string;
+  // Without it the table is read-only: no status changes, selection or bulk actions
+  editPermission: Permission;
+  columns: ColumnDef<TData>[];
+  statuses: readonly TStatus[];
+  workflow: StatusWorkflow<TStatus>;
+  fetcher: EntityFetcher<TData>;
+  updater: EntityStatusUpdater<TStatus>;
+  assigner: EntityAssigner;
+  // "mine" for the My queue view
+  defaultAssigneeFilter?: AssigneeFilter;
+  searchPlaceholder?: string;
+  // Entity-specific filters rendered after the built-in ones, and the query fields they set
+  extraFilters?: React.ReactNode;
+  extraQuery?: Partial<ListQuery>;
+  // Changing it refetches the current page while keeping filters, sorting and the page
+  refreshToken?: number;
+  onRowClick?: (row: TData) => void;
+}
+
+interface StatusChangeRequest<TStatus extends string> {
+  id: string;
+  from: TStatus;
+  to: TStatus;
+}
+
+interface AssignmentChange {
+  id: string;
+  from: string | null;
+  to: string | null;
+}
+
+function createSelectionColumn<TData>(): ColumnDef<TData> {
+  return {
+    id: "select",
+    header: ({ table }) => (
+      <Checkbox
+        checked={table.getIsAllPageRowsSelected() || (table.getIsSomePageRowsSelected() && "indeterminate")}
+        onCheckedChange={(value) => table.toggleAllPageRowsSelected(!!value)}
+        aria-label="Select all"
+      />
+    ),
+    cell: ({ row }) => (
+      <Checkbox
+        checked={row.getIsSelected()}
+        onCheckedChange={(value) => row.toggleSelected(!!value)}
+        aria-label="Select row"
+      />
+    ),
+    enableSorting: false,
+    enableHiding: false,
+  };
+}
+
+// Clicks on controls inside a row (e.g. the status Select) shouldn't open the row
+const isInteractiveTarget = (target: EventTarget) =>
+  target instanceof Element && !!target.closest('button, a, input, [role="combobox"], [role="option"], [role="listbox"]');
+
+// Global cache of the last loaded page per entity, so revisiting a tab renders instantly
+const globalCachedPages = new Map<string, { queryKey: string; page: EntityPage<unknown> }>();
+
+export default function EntityDataTable<TData extends EntityRecord<TStatus>, TStatus extends string>({
+  entityName,
+  editPermission,
+  columns,
+  statuses,
+  workflow,
+  fetcher,
+  updater,
+  assigner,
+  defaultAssigneeFilter = "all",
+  searchPlaceholder = "Search by brand, model, year, phone...",
+  extraFilters,
+  extraQuery,
+  refreshToken,
+  onRowClick,
+}: EntityDataTableProps<TData, TStatus>) {
+  const cached = globalCachedPages.get(entityName) as { queryKey: string; page: EntityPage<TData> } | undefined;
+
+  const [data, setData] = React.useState<TData[]>(cached?.page.rows || []);
+  const [total, setTotal] = React.useState(cached?.page.total || 0);
+  const [globalFilter, setGlobalFilter] = React.useState("");
+  const [statusFilter, setStatusFilter] = React.useState<TStatus | "all">("all");
+  const [assigneeFilter, setAssigneeFilter] = React.useState<AssigneeFilter>(defaultAssigneeFilter);
+  const [sorting, setSorting] = React.useState<SortingState>([]);
+  const [pagination, setPagination] = React.useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: PAGE_SIZES[0],
+  });
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [rowSelection, setRowSelection] = React.useState<RowSelectionState>({});
+  const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({});
+  const [isBulkUpdating, setIsBulkUpdating] = React.useState(false);
+  const [pendingTransition, setPendingTransition] = React.useState<PendingTransition<TStatus> | null>(null);
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can(editPermission);
+  const session = useSession();
+  const username = session?.claims.username || session?.claims.email || session?.claims.sub;
+  const admins = useAdmins();
+  const assignees = React.useMemo(
+    () => admins.filter((admin) => admin.active !== false && adminCan(admin, editPermission)),
+    [admins, editPermission]
+  );
+
+  const search = useDebounce(globalFilter.trim());
+  // Callers tend to pass a fresh object each render; compare by value
+  const extraQueryKey = JSON.stringify(extraQuery ?? {});
+  const tableColumns = React.useMemo(
+    () => (canEdit ? [createSelectionColumn<TData>(), ...columns] : columns),
+    [columns, canEdit]
+  );
+
+  // Any change to the query invalidates the current page. Reset it while rendering rather than
+  // in an effect, so the fetch below runs once for the first page instead of for the old one too.
+  const filterKey = JSON.stringify([search, statusFilter, assigneeFilter, extraQueryKey, sorting]);
+  const [appliedFilterKey, setAppliedFilterKey] = React.useState(filterKey);
+  if (appliedFilterKey !== filterKey) {
+    setAppliedFilterKey(filterKey);
+    setPagination((old) => (old.pageIndex === 0 ? old : { ...old, pageIndex: 0 }));
+  }
+
+  // Selection only spans the rows currently on screen
+  React.useEffect(() => {
+    setRowSelection({});
+  }, [search, statusFilter, assigneeFilter, extraQueryKey, sorting, pagination]);
+
+  const query = React.useMemo<ListQuery>(
+    () => ({
+      ...(JSON.parse(extraQueryKey) as Partial<ListQuery>),
+      statusFilter: statusFilter !== "all" ? statusFilter : undefined,
+      assignedTo: assigneeFilter === "mine" ? username : undefined,
+      unassigned: assigneeFilter === "unassigned" || undefined,
+      skip: pagination.pageIndex * pagination.pageSize,
+      limit: pagination.pageSize,
+      search: search || undefined,
+      sortBy: sorting[0]?.id,
+      sortOrder: sorting[0]?.desc ? "desc" : "asc",
+    }),
+    [extraQueryKey, statusFilter, assigneeFilter, username, search, sorting, pagination]
+  );
+
+  // Fetch the current page from the backend
+  React.useEffect(() => {
+    // My queue needs to know who "me" is before the first request
+    if (assigneeFilter === "mine" && !username) return;
+    const controller = new AbortController();
+    const queryKey = JSON.stringify(query);
+
+    const fetchData = async () => {
+      try {
+        // Only show loading if the cached page doesn't match this query
+        if (globalCachedPages.get(entityName)?.queryKey !== queryKey) setIsLoading(true);
+        const response = await fetcher(query, { signal: controller.signal });
+        if (isAbortError(response.error)) return;
+
+        if (response.success && response.data) {
+          globalCachedPages.set(entityName, { queryKey, page: response.data });
+          setData(response.data.rows);
+          setTotal(response.data.total);
+          setError(null);
+        } else {
+          console.error(`Failed to fetch ${entityName}:`, response.error);
+          setError(response.error?.message || `Failed to fetch ${entityName}`);
+        }
+      } catch (error) {
+        console.error(`Error fetching ${entityName}:`, error);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [entityName, fetcher, query, assigneeFilter, username, refreshToken]);
+
+  const patchRow = React.useCallback(
+    (id: string, patch: Partial<TData>) => {
+      setData((old) => {
+        const newData = old.map((row) => (row._id === id ? { ...row, ...patch } : row));
+        const cachedPage = globalCachedPages.get(entityName);
+        if (cachedPage) {
+          globalCachedPages.set(entityName, { ...cachedPage, page: { ...cachedPage.page, rows: newData } });
+        }
+        return newData;
+      });
+    },
+    [entityName]
+  );
+
+  const setRowStatus = React.useCallback(
+    (id: string, status: TStatus) => patchRow(id, { status } as Partial<TData>),
+    [patchRow]
+  );
+
+  const setRowAssignee = React.useCallback(
+    (id: string, assignedTo: string | null) => patchRow(id, { assignedTo } as Partial<TData>),
+    [patchRow]
+  );
+
+  const updateData = React.useCallback(
+    async (rowIndex: number, columnId: string, value: TStatus, details?: StatusUpdateDetails) => {
+      const record = data[rowIndex];
+
+      if (columnId === "status" && record?._id) {
+        if (!details && needsTransitionPrompt(workflow, value)) {
+          setPendingTransition({
+            status: value,
+            recordCount: 1,
+            apply: (transitionDetails) => updateData(rowIndex, columnId, value, transitionDetails),
+          });
+          return;
+        }
+
+        // Optimistic Update: Update UI immediately
+        setRowStatus(record._id, value);
+
+        try {
+          const response = await updater(record._id, value, details);
+          if (!response.success) {
+            throw new Error(response.error?.message);
+          }
+        } catch (error) {
+          console.error(`Error updating ${entityName} status:`, error);
+          // Revert the change if API call fails
+          setRowStatus(record._id, record.status);
+          toast({
+            variant: "destructive",
+            title: "Status not updated",
+            description: error instanceof Error ? error.message : undefined,
+          });
+        }
+      }
+    },
+    [data, entityName, setRowStatus, toast, updater, workflow]
+  );
+
+  // Optimistically applies every change, then rolls back the ones the backend rejected
+  const applyStatusChanges = React.useCallback(
+    async (changes: StatusChangeRequest<TStatus>[], details?: StatusUpdateDetails) => {
+      changes.forEach((change) => setRowStatus(change.id, change.to));
+
+      const results = await Promise.allSettled(
+        changes.map(async (change) => {
+          const response = await updater(change.id, change.to, details);
+          if (!response.success) throw new Error(response.error?.message || "Update failed");
+        })
+      );
+
+      const succeeded: StatusChangeRequest<TStatus>[] = [];
+      const failures: string[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          succeeded.push(changes[index]);
+        } else {
+          setRowStatus(changes[index].id, changes[index].from);
+          failures.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+        }
+      });
+      return { succeeded, failures };
+    },
+    [setRowStatus, updater]
+  );
+
+  const undoStatusChanges = React.useCallback(
+    async (changes: StatusChangeRequest<TStatus>[]) => {
+      const { failures } = await applyStatusChanges(
+        changes.map((change) => ({ id: change.id, from: change.to, to: change.from }))
+      );
+      toast(
+        failures.length
+          ? { variant: "destructive", title: `Undo failed for ${failures.length} of ${changes.length} ${entityName}` }
+          : { title: `Restored ${changes.length} ${entityName}` }
+      );
+    },
+    [applyStatusChanges, entityName, toast]
+  );
+
+  // Same optimistic apply-then-roll-back flow as status changes
+  const applyAssignments = React.useCallback(
+    async (changes: AssignmentChange[]) => {
+      changes.forEach((change) => setRowAssignee(change.id, change.to));
+
+      const results = await Promise.allSettled(
+        changes.map(async (change) => {
+          const response = await assigner(change.id, change.to);
+          if (!response.success) throw new Error(response.error?.message || "Assignment failed");
+        })
+      );
+
+      const succeeded: AssignmentChange[] = [];
+      const failures: string[] = [];
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled") {
+          succeeded.push(changes[index]);
+        } else {
+          setRowAssignee(changes[index].id, changes[index].from);
+          failures.push(result.reason instanceof Error ? result.reason.message : String(result.reason));
+        }
+      });
+      return { succeeded, failures };
+    },
+    [assigner, setRowAssignee]
+  );
+
+  const assign = React.useCallback(
+    async (rowIndex: number, assignedTo: string | null) => {
+      const record = data[rowIndex];
+      if (!record?._id) return;
+      const { failures } = await applyAssignments([{ id: record._id, from: record.assignedTo ?? null, to: assignedTo }]);
+      if (failures.length) {
+        toast({ variant: "destructive", title: "Assignment failed", description: failures[0] });
+      }
+    },
+    [applyAssignments, data, toast]
+  );
+
+  const bulkAssign = async (assignedTo: string | null) => {
+    const changes = table
+      .getSelectedRowModel()
+      .rows.map((row) => row.original)
+      .filter((record) => (record.assignedTo ?? null) !== assignedTo)
+      .map((record) => ({ id: record._id, from: record.assignedTo ?? null, to: assignedTo }));
+    if (!changes.length) return;
+
+    setIsBulkUpdating(true);
+    const { succeeded, failures } = await applyAssignments(changes);
+    setIsBulkUpdating(false);
+    setRowSelection({});
+
+    toast({
+      variant: failures.length ? "destructive" : "default",
+      title: failures.length
+        ? `Assigned ${succeeded.length} of ${changes.length} ${entityName}`
+        : assignedTo
+          ? `Assigned ${succeeded.length} ${entityName} to ${assignedTo}`
+          : `Unassigned ${succeeded.length} ${entityName}`,
+      description: failures.length ? `${failures.length} failed: ${failures[0]}` : undefined,
+      action: succeeded.length ? (
+        <ToastAction
+          altText="Undo assignment"
+          onClick={() => applyAssignments(succeeded.map((change) => ({ id: change.id, from: change.to, to: change.from })))}
+        >
+          Undo
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  const bulkUpdateStatus = async (status: TStatus, details?: StatusUpdateDetails) => {
+    const changes = table
+      .getSelectedRowModel()
+      .rows.map((row) => row.original)
+      .filter((record) => record.status !== status)
+      .map((record) => ({ id: record._id, from: record.status, to: status }));
+    if (!changes.length) return;
+
+    if (!details && needsTransitionPrompt(workflow, status)) {
+      setPendingTransition({
+        status,
+        recordCount: changes.length,
+        apply: (transitionDetails) => bulkUpdateStatus(status, transitionDetails),
+      });
+      return;
+    }
+
+    setIsBulkUpdating(true);
+    const { succeeded, failures } = await applyStatusChanges(changes, details);
+    setIsBulkUpdating(false);
+    setRowSelection({});
+    // Undo is itself a status change, so only offer it where the workflow allows going back
+    const undoable = succeeded.filter(
+      (change) => canTransition(workflow, change.to, change.from) && !getRequiredFields(workflow, change.from).length
+    );
+
+    // Group identical errors so 40 timeouts read as one line
+    const failureSummary = Object.entries(
+      failures.reduce<Record<string, number>>((acc, message) => {
+        acc[message] = (acc[message] || 0) + 1;
+        return acc;
+      }, {})
+    )
+      .map(([message, count]) => `${count} × ${message}`)
+      .join("; ");
+
+    toast({
+      variant: failures.length ? "destructive" : "default",
+      title: failures.length
+        ? `Updated ${succeeded.length} of ${changes.length} ${entityName}`
+        : `Set ${succeeded.length} ${entityName} to ${status}`,
+      description: failures.length ? `${failures.length} failed: ${failureSummary}` : undefined,
+      action: undoable.length ? (
+        <ToastAction altText="Undo status change" onClick={() => undoStatusChanges(undoable)}>
+          Undo
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  // Aborts an "all rows" export still paging through the backend
+  const exportControllerRef = React.useRef<AbortController | null>(null);
+  const cancelExport = React.useCallback(() => exportControllerRef.current?.abort(), []);
+  React.useEffect(() => cancelExport, [cancelExport]);
+
+  // Exports the visible columns of either this page or every page matching the filters
+  const handleExport = async (exportFormat: ExportFormat, scope: ExportScope) => {
+    let rows = data;
+    if (scope === "all") {
+      exportControllerRef.current?.abort();
+      const controller = new AbortController();
+      exportControllerRef.current = controller;
+      rows = [];
+      for (let skip = 0; ; skip += EXPORT_BATCH_SIZE) {
+        const response = await fetcher({ ...query, skip, limit: EXPORT_BATCH_SIZE }, { signal: controller.signal });
+        if (isAbortError(response.error) || controller.signal.aborted) return;
+        if (!response.success || !response.data) {
+          toast({ variant: "destructive", title: "Export failed", description: response.error?.message });
+          return;
+        }
+        rows.push(...response.data.rows);
+        if (!response.data.rows.length || rows.length >= response.data.total) break;
+      }
+    }
+    await exportRows(rows, getExportColumns(table), exportFormat, entityName.replace(/\s+/g, "-"));
+  };
+
+  const meta: EntityTableMeta<TStatus, TData> = { updateData, patchRow, assign, assignees, canEdit };
+
+  const table = useReactTable({
+    data,
+    columns: tableColumns,
+    getCoreRowModel: getCoreRowModel(),
+    getRowId: (row) => row._id,
+    manualPagination: true,
+    manualSorting: true,
+    manualFiltering: true,
+    rowCount: total,
+    state: {
+      globalFilter,
+      sorting,
+      pagination,
+      rowSelection,
+      columnVisibility,
+    },
+    onColumnVisibilityChange: setColumnVisibility,
+    enableRowSelection: canEdit,
+    onRowSelectionChange: setRowSelection,
+    onGlobalFilterChange: setGlobalFilter,
+    onSortingChange: setSorting,
+    onPaginationChange: setPagination,
+    meta,
+  });
+
+  // Get pagination state
+  const { pageIndex, pageSize } = pagination;
+  const currentPageRows = table.getRowModel().rows.length;
+  const pageCount = table.getPageCount();
+  const itemStart = pageIndex * pageSize + 1;
+  const itemEnd = itemStart + currentPageRows - 1;
+
+  return (
+    <div className="rounded-lg border bg-card text-card-foreground shadow-sm">
+      <div className="flex items-center p-4 gap-4">
+        <Input
+          placeholder={searchPlaceholder}
+          value={globalFilter}
+          onChange={(event) => setGlobalFilter(event.target.value)}
+          className="max-w-sm"
+        />
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => setStatusFilter(value as TStatus | "all")}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Filter by status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            {statuses.map((status) => (
+              <SelectItem key={status} value={status} className="capitalize">
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={assigneeFilter} onValueChange={(value) => setAssigneeFilter(value as AssigneeFilter)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Filter by assignee" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All agents</SelectItem>
+            <SelectItem value="mine">My queue</SelectItem>
+            <SelectItem value="unassigned">Unassigned</SelectItem>
+          </SelectContent>
+        </Select>
+        {extraFilters}
+        <div className="ml-auto flex items-center gap-2">
+          <DataTableViewOptions table={table} />
+          <DataTableExportMenu onExport={handleExport} onCancel={cancelExport} paginated />
+        </div>
+      </div>
+      {canEdit && (
+        <BulkActionBar
+          selectedCount={Object.keys(rowSelection).length}
+          statuses={getSharedNextStatuses(
+            workflow,
+            table.getSelectedRowModel().rows.map((row) => row.original.status)
+          )}
+          isUpdating={isBulkUpdating}
+          onSetStatus={bulkUpdateStatus}
+          assignees={assignees}
+          onAssign={bulkAssign}
+          onClear={() => setRowSelection({})}
+        />
+      )}
+      <StatusTransitionDialog
+        workflow={workflow}
+        transition={pendingTransition}
+        onConfirm={(details) => {
+          pendingTransition?.apply(details);
+          setPendingTransition(null);
+        }}
+        onCancel={() => setPendingTransition(null)}
+      />
+      <div className="border-t">
+        <Table>
+          <TableHeader>
+            {table.getHeaderGroups().map((headerGroup) => (
+              <TableRow key={headerGroup.id}>
+                {headerGroup.headers.map((header) => {
+                  return (
+                    <TableHead
+                      key={header.id}
+                      className="whitespace-nowrap font-bold text-black"
+                    >
+                      {header.isPlaceholder
+                        ? null
+                        : flexRender(
+                            header.column.columnDef.header,
+                            header.getContext()
+                          )}
+                    </TableHead>
+                  );
+                })}
+              </TableRow>
+            ))}
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={table.getVisibleLeafColumns().length} className="h-24 text-center">
+                  Loading...
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={table.getVisibleLeafColumns().length} className="h-24 text-center text-red-600">
+                  Error: {error}
+                </TableCell>
+              </TableRow>
+            ) : table.getRowModel().rows?.length ? (
+              table.getRowModel().rows.map((row) => (
+                <TableRow
+                  key={row.id}
+                  data-state={row.getIsSelected() && "selected"}
+                  className={onRowClick ? "cursor-pointer" : undefined}
+                  onClick={(event) => {
+                    if (onRowClick && !isInteractiveTarget(event.target)) onRowClick(row.original);
+                  }}
+                >
+                  {row.getVisibleCells().map((cell) => (
+                    <TableCell key={cell.id} className="py-3">
+                      {flexRender(
+                        cell.column.columnDef.cell,
+                        cell.getContext()
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell
+                  colSpan={table.getVisibleLeafColumns().length}
+                  className="h-24 text-center"
+                >
+                  No results.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      <div className="flex items-center justify-between p-4 border-t">
+        <div className="text-sm text-muted-foreground">
+          {total === 0
+            ? "No results."
+            : `Showing ${itemStart}–${itemEnd} of ${total} ${entityName}. Page ${
+                pageIndex + 1
+              } of ${pageCount}.`}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Select
+            value={String(pageSize)}
+            onValueChange={(value) => table.setPageSize(Number(value))}
+          >
+            <SelectTrigger className="h-9 w-[110px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAGE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} / page
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => table.previousPage()}
+            disabled={!table.getCanPreviousPage()}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => table.nextPage()}
+            disabled={!table.getCanNextPage()}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client"
+
+import * as React from "react"
+import { addDays, format } from "date-fns"
+import { StatusUpdateDetails } from "@/lib/api"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+export type FollowUpDetails = Required<StatusUpdateDetails>["followUp"]
+
+interface FollowUpDialogProps {
+  open: boolean
+  // Number of records being moved; more than one for bulk changes
+  recordCount?: number
+  onConfirm: (followUp: FollowUpDetails) => void
+  onCancel: () => void
+}
+
+const DEFAULT_TIME = "10:00"
+
+export function FollowUpDialog({ open, recordCount = 1, onConfirm, onCancel }: FollowUpDialogProps) {
+  const [date, setDate] = React.useState("")
+  const [time, setTime] = React.useState(DEFAULT_TIME)
+  const [note, setNote] = React.useState("")
+
+  // Defaults to tomorrow morning every time it opens
+  React.useEffect(() => {
+    if (open) {
+      setDate(format(addDays(new Date(), 1), "yyyy-MM-dd"))
+      setTime(DEFAULT_TIME)
+      setNote("")
+    }
+  }, [open])
+
+  const dueAt = new Date(`${date}T${time || DEFAULT_TIME}`)
+  const isValid = !!date && !isNaN(dueAt.getTime())
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!isValid) return
+    onConfirm({ dueAt: dueAt.toISOString(), note: note.trim() || undefined })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle>Schedule follow-up</DialogTitle>
+            <DialogDescription>
+              {recordCount > 1
+                ? `All ${recordCount} selected records will be due for follow-up at this time.`
+                : "The record shows up under Follow-ups when it is due."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="follow-up-date">Date</Label>
+              <Input id="follow-up-date" type="date" value={date} onChange={(event) => setDate(event.target.value)} required />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="follow-up-time">Time</Label>
+              <Input id="follow-up-time" type="time" value={time} onChange={(event) => setTime(event.target.value)} />
+            </div>
+          </div>
+          {isValid && dueAt < new Date() && (
+            <p className="text-sm text-amber-700">This time has already passed; the follow-up will show as overdue.</p>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="follow-up-note">Note</Label>
+            <Textarea
+              id="follow-up-note"
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              placeholder="What to discuss on the call"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Set follow-up
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,16 @@
+"use client"
+
+import { MessageSquareText } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+export function NoteCountCell({ count = 0 }: { count?: number }) {
+  return (
+    <div
+      className={cn("flex items-center gap-1 text-sm", count ? "font-medium" : "text-muted-foreground/60")}
+      aria-label={`${count} ${count === 1 ? "note" : "notes"}`}
+    >
+      <MessageSquareText className="h-4 w-4" />
+      {count}
+    </div>
+  )
+}
@@ -0,0 +1,239 @@
+"use client"
+
+import * as React from "react"
+import { format } from "date-fns"
+import { Pin, PinOff } from "lucide-react"
+import { AuditEntityType, RecordNote } from "@/lib/types"
+import { isAbortError, notesApi } from "@/lib/api"
+import { extractMentions, getMentionQuery, splitMentions } from "@/lib/mentions"
+import { cn } from "@/lib/utils"
+import { useAdmins } from "@/hooks/use-admins"
+import { useSession } from "@/hooks/use-session"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+
+interface RecordNotesProps {
+  entityType: AuditEntityType
+  entityId: string
+  // Read-only users see the thread but can't post or pin
+  canEdit: boolean
+  // Lets the owning table bump the record's note count
+  onNoteAdded?: (note: RecordNote) => void
+}
+
+const MAX_SUGGESTIONS = 5
+
+// Pinned notes stay on top, the rest newest first
+const sortNotes = (notes: RecordNote[]) =>
+  [...notes].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt.localeCompare(a.createdAt))
+
+function NoteBody({ note, currentUser }: { note: RecordNote; currentUser: string }) {
+  return (
+    <p className="whitespace-pre-wrap break-words">
+      {splitMentions(note.body, note.mentions).map((segment, index) =>
+        segment.mention ? (
+          <span
+            key={index}
+            className={cn(
+              "rounded px-0.5 font-medium",
+              segment.mention === currentUser ? "bg-amber-100 text-amber-900" : "text-primary"
+            )}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </p>
+  )
+}
+
+export function RecordNotes({ entityType, entityId, canEdit, onNoteAdded }: RecordNotesProps) {
+  const [notes, setNotes] = React.useState<RecordNote[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  const [draft, setDraft] = React.useState("")
+  const [caret, setCaret] = React.useState(0)
+  const [isPosting, setIsPosting] = React.useState(false)
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null)
+  const admins = useAdmins()
+  const session = useSession()
+  const currentUser = String(session?.claims.username || session?.claims.sub || "").toLowerCase()
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const fetchNotes = async () => {
+      setIsLoading(true)
+      const response = await notesApi.getAll(entityType, entityId, { signal })
+      if (isAbortError(response.error)) return
+
+      if (response.success && response.data) {
+        setNotes(sortNotes(response.data.items))
+        setError(null)
+      } else {
+        setError(response.error?.message || "Failed to load notes")
+      }
+      setIsLoading(false)
+    }
+
+    fetchNotes()
+    return () => controller.abort()
+  }, [entityType, entityId])
+
+  const mentionQuery = getMentionQuery(draft, caret)
+  const suggestions = mentionQuery
+    ? admins
+        .filter((admin) => admin.username.toLowerCase().startsWith(mentionQuery.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : []
+
+  const insertMention = (username: string) => {
+    if (!mentionQuery) return
+    const before = draft.slice(0, mentionQuery.start)
+    const after = draft.slice(caret)
+    const inserted = `@${username} `
+    setDraft(`${before}${inserted}${after}`)
+    const nextCaret = before.length + inserted.length
+    setCaret(nextCaret)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCaret, nextCaret)
+    })
+  }
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const body = draft.trim()
+    if (!body) return
+
+    setIsPosting(true)
+    const response = await notesApi.create({
+      entityType,
+      entityId,
+      body,
+      mentions: extractMentions(body, admins.map((admin) => admin.username)),
+    })
+    setIsPosting(false)
+
+    if (response.success && response.data) {
+      const created = response.data
+      setNotes((old) => sortNotes([created, ...old]))
+      setDraft("")
+      setCaret(0)
+      setError(null)
+      onNoteAdded?.(created)
+    } else {
+      setError(response.error?.message || "Failed to add note")
+    }
+  }
+
+  const togglePinned = async (note: RecordNote) => {
+    const update = (pinned: boolean) =>
+      setNotes((old) => sortNotes(old.map((n) => (n._id === note._id ? { ...n, pinned } : n))))
+
+    update(!note.pinned)
+    const response = await notesApi.setPinned(note._id, !note.pinned)
+    if (!response.success) {
+      console.error("Failed to update note:", response.error)
+      update(note.pinned)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {canEdit && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="relative">
+            <Textarea
+              ref={textareaRef}
+              value={draft}
+              onChange={(event) => {
+                setDraft(event.target.value)
+                setCaret(event.target.selectionStart)
+              }}
+              onSelect={(event) => setCaret(event.currentTarget.selectionStart)}
+              onKeyDown={(event) => {
+                if (suggestions.length && (event.key === "Enter" || event.key === "Tab")) {
+                  event.preventDefault()
+                  insertMention(suggestions[0].username)
+                } else if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+                  event.currentTarget.form?.requestSubmit()
+                }
+              }}
+              placeholder="Add a note. Type @ to mention another admin."
+              rows={3}
+            />
+            {suggestions.length > 0 && (
+              <ul className="absolute left-0 top-full z-10 mt-1 w-56 rounded-md border bg-popover p-1 text-sm shadow-md">
+                {suggestions.map((admin) => (
+                  <li key={admin.username}>
+                    <button
+                      type="button"
+                      className="flex w-full items-center justify-between rounded px-2 py-1 text-left hover:bg-muted"
+                      onMouseDown={(event) => {
+                        // Keep focus in the textarea
+                        event.preventDefault()
+                        insertMention(admin.username)
+                      }}
+                    >
+                      <span>@{admin.username}</span>
+                      {admin.role && <span className="text-xs text-muted-foreground">{admin.role}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" size="sm" disabled={isPosting || !draft.trim()}>
+              {isPosting ? "Adding..." : "Add note"}
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600">Error: {error}</p>}
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading notes...</p>
+      ) : !notes.length ? (
+        <p className="text-sm text-muted-foreground">No notes yet.</p>
+      ) : (
+        <ul className="space-y-2 text-sm">
+          {notes.map((note) => (
+            <li
+              key={note._id}
+              className={cn("rounded-md border px-3 py-2", note.pinned && "border-amber-200 bg-amber-50/60")}
+            >
+              <div className="mb-1 flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{note.author}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {format(new Date(note.createdAt), "MMM dd, yyyy 'at' h:mm a")}
+                  </span>
+                  {note.pinned && <Badge variant="outline" className="gap-1"><Pin className="h-3 w-3" />Pinned</Badge>}
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => togglePinned(note)}
+                    aria-label={note.pinned ? "Unpin note" : "Pin note"}
+                  >
+                    {note.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                  </Button>
+                )}
+              </div>
+              <NoteBody note={note} currentUser={currentUser} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,147 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { CalendarPlus } from "lucide-react"
+import { Booking } from "@/lib/types"
+import { Permission } from "@/lib/permissions"
+import { canTransition, statusWorkflows } from "@/lib/workflow"
+import { usePermissions } from "@/hooks/use-permissions"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet"
+import { RecordAuditLog } from "@/components/audit/record-audit-log"
+import { RecordNotes } from "@/components/notes/record-notes"
+import { ConvertibleRequest, ConvertToBookingDialog } from "@/components/bookings/convert-to-booking-dialog"
+
+interface RequestDetailSheetProps {
+  // Taken from the table row; requests have no detail endpoint of their own
+  request: ConvertibleRequest | null
+  editPermission: Permission
+  onOpenChange: (open: boolean) => void
+  // The request itself is now booking-confirmed; callers refresh what they show
+  onConverted?: (booking: Booking) => void
+  // So the table's note count can be refreshed
+  onNoteAdded?: () => void
+}
+
+const formatTimestamp = (value: string) => {
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : format(date, "MMM dd, yyyy 'at' h:mm a")
+}
+
+function DetailRow({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="col-span-2 font-medium">{children}</span>
+    </div>
+  )
+}
+
+export function RequestDetailSheet({ request, editPermission, onOpenChange, onConverted, onNoteAdded }: RequestDetailSheetProps) {
+  const { can } = usePermissions()
+  const [isConverting, setIsConverting] = React.useState(false)
+  const record = request?.record
+  const canConvert =
+    !!request &&
+    !request.record.convertedBookingId &&
+    can("bookings:edit") &&
+    canTransition(statusWorkflows[request.entityType], request.record.status, "booking-confirmed")
+
+  return (
+    <Sheet open={!!request} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{record ? `${record.brand} ${record.model}` : "Request details"}</SheetTitle>
+          <SheetDescription>
+            {record && `${record.year} • ${record.fuelType} • Requested ${formatTimestamp(record.createdAt)}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {request && record && (
+          <div className="mt-6 space-y-6">
+            <div className="flex items-center justify-between gap-2">
+              <Badge variant="outline" className="capitalize">{record.status}</Badge>
+              {canConvert && (
+                <Button size="sm" onClick={() => setIsConverting(true)}>
+                  <CalendarPlus className="mr-2 h-4 w-4" />
+                  Convert to booking
+                </Button>
+              )}
+            </div>
+
+            <section className="space-y-2">
+              <h3 className="text-sm font-semibold">Customer</h3>
+              <DetailRow label="Phone">
+                {can("customers:view") ? (
+                  <Link href={`/dashboard/customers/${encodeURIComponent(record.phone)}`} className="underline underline-offset-2">
+                    {record.phone}
+                  </Link>
+                ) : (
+                  record.phone
+                )}
+              </DetailRow>
+              <DetailRow label="Assigned to">{record.assignedTo || "Unassigned"}</DetailRow>
+              {request.entityType === "insurance_request" && (
+                <DetailRow label="Policy">{request.record.companyPolicyName}</DetailRow>
+              )}
+              {record.convertedBookingId && (
+                <DetailRow label="Booking">
+                  <Link href={`/dashboard/bookings/${record.convertedBookingId}`} className="underline underline-offset-2">
+                    View booking
+                  </Link>
+                </DetailRow>
+              )}
+              {record.followUp && (
+                <DetailRow label="Follow up">
+                  {formatTimestamp(record.followUp.dueAt)}
+                  {record.followUp.note && <span className="block text-muted-foreground font-normal">{record.followUp.note}</span>}
+                </DetailRow>
+              )}
+            </section>
+
+            <Separator />
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">Notes</h3>
+              <RecordNotes
+                entityType={request.entityType}
+                entityId={record._id}
+                canEdit={can(editPermission)}
+                onNoteAdded={onNoteAdded}
+              />
+            </section>
+
+            {can("audit:view") && (
+              <>
+                <Separator />
+
+                <section className="space-y-3">
+                  <h3 className="text-sm font-semibold">Audit log</h3>
+                  <RecordAuditLog entityType={request.entityType} entityId={record._id} />
+                </section>
+              </>
+            )}
+          </div>
+        )}
+      </SheetContent>
+      <ConvertToBookingDialog
+        request={isConverting ? request : null}
+        onOpenChange={(open) => !open && setIsConverting(false)}
+        onConverted={(booking) => {
+          setIsConverting(false)
+          onConverted?.(booking)
+        }}
+      />
+    </Sheet>
+  )
+}
@@ -18,7 +18,6 @@ const bookingStatusColors: Record<BookingStatus, string> = {
   "not-interested": "hsl(var(--status-not-interested))",
   "to-follow-up": "hsl(var(--status-to-follow-up))",
   "cold-enq": "hsl(var(--status-cold-enq))",
-  "booking-confirmed": "hsl(var(--status-booking-confirmed))",
 };
 
 const insuranceStatusColors: Record<InsuranceStatus, string> = {
@@ -2,12 +2,17 @@
 
 import { ColumnDef } from "@tanstack/react-table"
 import { GeneralRequest, GeneralRequestStatus } from "@/lib/types"
-import { Badge } from "@/components/ui/badge"
-import { cn } from "@/lib/utils"
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { StatusSelect } from "@/components/status-select"
+import { DataTableColumnHeader } from "@/components/data-table-column-header"
+import { formatExportDate } from "@/lib/export"
+import { EntityTableMeta } from "@/components/entity-data-table"
+import { NoteCountCell } from "@/components/notes/note-count-cell"
+import { AssigneeSelect } from "@/components/assignee-select"
+import { SlaAgeCell, slaAgeExportValue } from "@/components/sla-age-cell"
+import { getSelectableStatuses, isTerminalStatus, generalRequestWorkflow } from "@/lib/workflow"
 
 // Updated status styles to match bookingsColumns
-const statusStyles: Record<GeneralRequestStatus, string> = {
+export const statusStyles: Record<GeneralRequestStatus, string> = {
   new: "bg-amber-100 text-amber-800 border-amber-200 hover:bg-amber-200",
   "in-progress": "bg-blue-100 text-blue-800 border-blue-200 hover:bg-blue-200",
   resolved: "bg-green-100 text-green-800 border-green-200 hover:bg-green-200",
@@ -28,12 +33,16 @@ const statusDotStyles: Record<GeneralRequestStatus, string> = {
   "booking-confirmed": "bg-blue-500",
 };
 
-const generalRequestStatuses: GeneralRequestStatus[] = ["new", "in-progress", "resolved", "not-interested", "to-follow-up", "cold-enq", "booking-confirmed"];
+export const generalRequestStatuses: GeneralRequestStatus[] = ["new", "in-progress", "resolved", "not-interested", "to-follow-up", "cold-enq", "booking-confirmed"];
 
 export const generalRequestColumns: ColumnDef<GeneralRequest>[] = [
   {
     accessorKey: "brand",
-    header: "Vehicle",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Vehicle" />,
+    meta: {
+      exportHeader: "Vehicle",
+      exportValue: (row) => `${row.brand} ${row.model} (${row.year}, ${row.fuelType})`,
+    },
     cell: ({ row }) => {
       const req = row.original;
       return (
@@ -47,10 +56,15 @@ export const generalRequestColumns: ColumnDef<GeneralRequest>[] = [
   {
     accessorKey: "phone",
     header: "Phone",
+    enableSorting: false,
   },
   {
     accessorKey: "createdAt",
-    header: "Requested On",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Requested On" />,
+    meta: {
+      exportHeader: "Requested On",
+      exportValue: (row) => formatExportDate(row.createdAt),
+    },
     cell: ({ row }) => {
       const date = new Date(row.getValue("createdAt"))
       const formatted = date.toLocaleDateString("en-IN", {
@@ -59,53 +73,61 @@ export const generalRequestColumns: ColumnDef<GeneralRequest>[] = [
       return <div>{formatted}</div>
     },
   },
+  {
+    id: "age",
+    header: "Age",
+    enableSorting: false,
+    meta: {
+      exportValue: slaAgeExportValue("general_request"),
+    },
+    cell: ({ row }) => <SlaAgeCell record={row.original} entityType="general_request" />,
+  },
+  {
+    accessorKey: "assignedTo",
+    header: "Assigned To",
+    enableSorting: false,
+    meta: {
+      exportHeader: "Assigned To",
+      exportValue: (row) => row.assignedTo ?? "",
+    },
+    cell: function Cell({ row, table }) {
+      const { assign, assignees, canEdit } = table.options.meta as EntityTableMeta<GeneralRequestStatus>;
+
+      return (
+        <AssigneeSelect
+          value={row.original.assignedTo}
+          assignees={assignees}
+          onChange={(assignedTo) => assign(row.index, assignedTo)}
+          disabled={!canEdit}
+        />
+      );
+    }
+  },
+  {
+    accessorKey: "noteCount",
+    header: "Notes",
+    enableSorting: false,
+    meta: {
+      exportValue: (row) => row.noteCount ?? 0,
+    },
+    cell: ({ row }) => <NoteCountCell count={row.original.noteCount} />,
+  },
   {
     accessorKey: "status",
     header: "Status",
+    enableSorting: false,
     cell: function Cell({ getValue, row, column, table }) {
       const initialValue = getValue() as GeneralRequestStatus;
-      const { updateData } = table.options.meta as any;
+      const { updateData, canEdit } = table.options.meta as EntityTableMeta<GeneralRequestStatus>;
 
       return (
-        <Select
+        <StatusSelect
           value={initialValue}
-          onValueChange={(value) => updateData(row.index, column.id, value)}
-        >
-          <SelectTrigger
-            className={cn(
-              "w-44 h-9 transition-all duration-200 border-2 font-medium rounded-lg py-1.5 px-3",
-              "focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(var(--status-" + initialValue + "))/40]",
-              "hover:shadow-sm active:scale-95",
-              statusStyles[initialValue]
-            )}
-          >
-            <div className="flex items-center gap-2">
-              <span className="truncate capitalize">
-                <SelectValue />
-              </span>
-            </div>
-          </SelectTrigger>
-          <SelectContent className="rounded-lg border-2 border-gray-200 bg-white shadow-md">
-            {generalRequestStatuses.map((status) => (
-              <SelectItem
-                key={status}
-                value={status}
-                className="px-3 py-1.5 cursor-pointer transition-colors duration-150 hover:bg-gray-50 focus:bg-gray-50"
-              >
-                <div className="flex items-center gap-2">
-                  <Badge
-                    className={cn(
-                      "capitalize text-sm font-medium w-full justify-start border-0 px-2 py-0.5",
-                      statusStyles[status]
-                    )}
-                  >
-                    {status}
-                  </Badge>
-                </div>
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+          statuses={getSelectableStatuses(generalRequestWorkflow, initialValue)}
+          styles={statusStyles}
+          onChange={(value) => updateData(row.index, column.id, value)}
+          disabled={!canEdit || isTerminalStatus(generalRequestWorkflow, initialValue)}
+        />
       );
     }
   },
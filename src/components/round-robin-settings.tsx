@@ -0,0 +1,70 @@
+"use client"
+
+import * as React from "react"
+import { assignmentsApi, isAbortError } from "@/lib/api"
+import { useToast } from "@/hooks/use-toast"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+
+interface RoundRobinSettingsProps {
+  // Called after leads were handed out so the caller can refresh its tables
+  onAssigned: () => void
+}
+
+// Round-robin runs on the backend; this only switches it and triggers a catch-up run
+export function RoundRobinSettings({ onAssigned }: RoundRobinSettingsProps) {
+  const [enabled, setEnabled] = React.useState<boolean | null>(null)
+  const [isRunning, setIsRunning] = React.useState(false)
+  const { toast } = useToast()
+
+  React.useEffect(() => {
+    const controller = new AbortController()
+    assignmentsApi.getSettings({ signal: controller.signal }).then((response) => {
+      if (isAbortError(response.error)) return
+      setEnabled(response.success && response.data ? response.data.roundRobin : false)
+    })
+    return () => controller.abort()
+  }, [])
+
+  const handleToggle = async (roundRobin: boolean) => {
+    setEnabled(roundRobin)
+    const response = await assignmentsApi.updateSettings({ roundRobin })
+    if (!response.success) {
+      setEnabled(!roundRobin)
+      toast({ variant: "destructive", title: "Could not update round-robin", description: response.error?.message })
+      return
+    }
+    // Enabling also assigns the current backlog
+    if (roundRobin) onAssigned()
+  }
+
+  const handleRun = async () => {
+    setIsRunning(true)
+    const response = await assignmentsApi.runRoundRobin()
+    setIsRunning(false)
+    if (!response.success || !response.data) {
+      toast({ variant: "destructive", title: "Round-robin failed", description: response.error?.message })
+      return
+    }
+    toast({ title: response.data.assigned ? `Assigned ${response.data.assigned} leads` : "No unassigned new or pending leads" })
+    if (response.data.assigned) onAssigned()
+  }
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="round-robin"
+          checked={!!enabled}
+          onCheckedChange={handleToggle}
+          disabled={enabled === null}
+        />
+        <Label htmlFor="round-robin" className="text-sm">Round-robin new and pending leads</Label>
+      </div>
+      <Button variant="outline" size="sm" onClick={handleRun} disabled={isRunning}>
+        {isRunning ? "Assigning..." : "Assign unassigned now"}
+      </Button>
+    </div>
+  )
+}
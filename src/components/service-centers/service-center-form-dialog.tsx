@@ -0,0 +1,269 @@
+"use client"
+
+import * as React from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { fuelTypes } from "@/lib/schemas"
+import { ServiceCenter } from "@/lib/types"
+import { saveServiceCenter } from "@/hooks/use-service-centers"
+import { useToast } from "@/hooks/use-toast"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+
+const serviceCenterFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    address: z.string().trim().min(10, "Enter the full address"),
+    contactName: z.string().trim(),
+    contactPhone: z.string().trim().regex(/^[6-9]\d{9}$/, "Enter a valid 10-digit mobile number"),
+    opensAt: z.string().min(1, "Pick an opening time"),
+    closesAt: z.string().min(1, "Pick a closing time"),
+    dailyCapacity: z
+      .number({ invalid_type_error: "Enter a capacity" })
+      .int("Whole numbers only")
+      .min(1, "At least 1 booking a day"),
+    fuelTypes: z.array(z.enum(fuelTypes)).min(1, "Pick at least one fuel type"),
+    active: z.boolean(),
+  })
+  .refine((values) => values.opensAt < values.closesAt, {
+    path: ["closesAt"],
+    message: "Must be after the opening time",
+  })
+
+type ServiceCenterFormValues = z.infer<typeof serviceCenterFormSchema>
+
+const emptyValues: ServiceCenterFormValues = {
+  name: "",
+  address: "",
+  contactName: "",
+  contactPhone: "",
+  opensAt: "09:00",
+  closesAt: "18:00",
+  dailyCapacity: 12,
+  fuelTypes: ["Petrol", "Diesel"],
+  active: true,
+}
+
+const toFormValues = (center: ServiceCenter): ServiceCenterFormValues => ({
+  name: center.name,
+  address: center.address,
+  contactName: center.contactName || "",
+  contactPhone: center.contactPhone,
+  opensAt: center.opensAt,
+  closesAt: center.closesAt,
+  dailyCapacity: center.dailyCapacity,
+  fuelTypes: center.fuelTypes,
+  active: center.active,
+})
+
+interface ServiceCenterFormDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Edits this center when set, otherwise creates a new one
+  center?: ServiceCenter | null
+}
+
+export function ServiceCenterFormDialog({ open, onOpenChange, center }: ServiceCenterFormDialogProps) {
+  const { toast } = useToast()
+  const isEditing = !!center
+  const form = useForm<ServiceCenterFormValues>({
+    resolver: zodResolver(serviceCenterFormSchema),
+    defaultValues: emptyValues,
+  })
+
+  React.useEffect(() => {
+    if (open) form.reset(center ? toFormValues(center) : emptyValues)
+  }, [open, center, form])
+
+  const handleSubmit = async (values: ServiceCenterFormValues) => {
+    const response = await saveServiceCenter(
+      { ...values, contactName: values.contactName || undefined },
+      center?._id
+    )
+    if (!response.success || !response.data) {
+      toast({
+        variant: "destructive",
+        title: isEditing ? "Could not save service center" : "Could not add service center",
+        description: response.error?.message,
+      })
+      return
+    }
+    toast({ title: isEditing ? "Service center updated" : "Service center added", description: response.data.name })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit service center" : "New service center"}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? "Renaming a center also renames it on its bookings."
+              : "The center can take bookings as soon as it is saved and active."}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="grid gap-4 sm:grid-cols-2">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>Name</FormLabel>
+                  <FormControl><Input {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>Address</FormLabel>
+                  <FormControl><Textarea rows={2} {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="contactName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact person</FormLabel>
+                  <FormControl><Input placeholder="Optional" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="contactPhone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Contact phone</FormLabel>
+                  <FormControl><Input type="tel" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="opensAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Opens at</FormLabel>
+                  <FormControl><Input type="time" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="closesAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Closes at</FormLabel>
+                  <FormControl><Input type="time" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="dailyCapacity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Daily capacity</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      {...field}
+                      value={Number.isNaN(field.value) ? "" : field.value}
+                      onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                    />
+                  </FormControl>
+                  <FormDescription>Spread evenly over the slots within opening hours.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Taking bookings</FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} className="block" />
+                  </FormControl>
+                  <FormDescription>Inactive centers keep their existing bookings.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="fuelTypes"
+              render={({ field }) => (
+                <FormItem className="sm:col-span-2">
+                  <FormLabel>Supported fuel types</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {fuelTypes.map((fuel) => (
+                      <label key={fuel} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={field.value.includes(fuel)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? fuelTypes.filter((item) => item === fuel || field.value.includes(item))
+                                : field.value.filter((item) => item !== fuel)
+                            )
+                          }
+                        />
+                        {fuel}
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="sm:col-span-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : isEditing ? "Save changes" : "Add center"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
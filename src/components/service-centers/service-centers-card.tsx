@@ -0,0 +1,105 @@
+"use client"
+
+import * as React from "react"
+import { Pencil, Plus } from "lucide-react"
+import { ServiceCenter } from "@/lib/types"
+import { useServiceCenters } from "@/hooks/use-service-centers"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { ServiceCenterFormDialog } from "./service-center-form-dialog"
+
+export function ServiceCentersCard() {
+  const { centers, isLoading } = useServiceCenters()
+  // null while closed; undefined center means a new one
+  const [editing, setEditing] = React.useState<{ center?: ServiceCenter } | null>(null)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Service centers</CardTitle>
+          <CardDescription>Where bookings are serviced, with their hours, daily capacity and fuel types.</CardDescription>
+        </div>
+        <Button size="sm" onClick={() => setEditing({})}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add center
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Contact</TableHead>
+              <TableHead>Hours</TableHead>
+              <TableHead className="text-right">Daily capacity</TableHead>
+              <TableHead>Fuel types</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">Loading...</TableCell>
+              </TableRow>
+            ) : !centers.length ? (
+              <TableRow>
+                <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">No service centers yet.</TableCell>
+              </TableRow>
+            ) : (
+              centers.map((center) => (
+                <TableRow key={center._id}>
+                  <TableCell>
+                    <div className="font-medium">{center.name}</div>
+                    <div className="text-xs text-muted-foreground">{center.address}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{center.contactPhone}</div>
+                    {center.contactName && <div className="text-xs text-muted-foreground">{center.contactName}</div>}
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">{center.opensAt}–{center.closesAt}</TableCell>
+                  <TableCell className="text-right">{center.dailyCapacity}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {center.fuelTypes.map((fuel) => (
+                        <Badge key={fuel} variant="secondary">{fuel}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={center.active ? "outline" : "secondary"}>{center.active ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label={`Edit ${center.name}`}
+                      onClick={() => setEditing({ center })}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+      <ServiceCenterFormDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        center={editing?.center}
+      />
+    </Card>
+  )
+}
@@ -0,0 +1,203 @@
+"use client"
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { authApi, setReauthHandler } from "@/lib/api"
+import { useSession } from "@/hooks/use-session"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+// How long before expiry we try a silent refresh and, failing that, warn the agent
+const WARNING_WINDOW_MS = 2 * 60 * 1000
+// setTimeout overflows past ~24.8 days; such long-lived tokens are not worth scheduling
+const MAX_TIMER_MS = 2 ** 31 - 1
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(Math.ceil(ms / 1000), 0)
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`
+}
+
+function ReauthDialog({ open, username, onSuccess, onSignOut }: {
+  open: boolean
+  username: string
+  onSuccess: () => void
+  onSignOut: () => void
+}) {
+  const [name, setName] = React.useState(username)
+  const [password, setPassword] = React.useState("")
+  const [error, setError] = React.useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = React.useState(false)
+
+  React.useEffect(() => {
+    if (open) {
+      setName(username)
+      setPassword("")
+      setError(null)
+    }
+  }, [open, username])
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSubmitting(true)
+    const response = await authApi.login(name, password)
+    setIsSubmitting(false)
+
+    if (response.success) {
+      onSuccess()
+    } else {
+      setError(response.error?.message || "Invalid credentials")
+    }
+  }
+
+  return (
+    <AlertDialog open={open}>
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Session expired</AlertDialogTitle>
+            <AlertDialogDescription>
+              Sign in again to continue. Anything you were doing will pick up where it left off.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="grid gap-2">
+            <Label htmlFor="reauth-username">Username</Label>
+            {/* Locked to the current user when the token tells us who that is */}
+            <Input
+              id="reauth-username"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              disabled={!!username}
+              required
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="reauth-password">Password</Label>
+            <Input
+              id="reauth-password"
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoFocus
+              required
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <AlertDialogFooter>
+            <Button type="button" variant="outline" onClick={onSignOut}>
+              Log out
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !password}>
+              {isSubmitting ? "Signing in..." : "Sign in"}
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
+
+export function SessionManager() {
+  const router = useRouter()
+  const session = useSession()
+  const [isWarningOpen, setIsWarningOpen] = React.useState(false)
+  const [isReauthOpen, setIsReauthOpen] = React.useState(false)
+  const [now, setNow] = React.useState(() => Date.now())
+  const resolveReauth = React.useRef<((renewed: boolean) => void) | null>(null)
+
+  const expiresAt = session?.expiresAt ?? null
+  const username = session?.claims.username || session?.claims.sub || ""
+
+  const signOut = React.useCallback(async () => {
+    const next = `${window.location.pathname}${window.location.search}`
+    await authApi.logout()
+    router.replace(`/login?next=${encodeURIComponent(next)}`)
+  }, [router])
+
+  const finishReauth = (renewed: boolean) => {
+    setIsReauthOpen(false)
+    resolveReauth.current?.(renewed)
+    resolveReauth.current = null
+    if (!renewed) signOut()
+  }
+
+  // Requests that hit a 401 wait here: first a silent refresh, then the sign-in modal
+  React.useEffect(() => {
+    setReauthHandler(async () => {
+      const refreshed = await authApi.refresh()
+      if (refreshed.success) return true
+      setIsWarningOpen(false)
+      setIsReauthOpen(true)
+      return new Promise<boolean>((resolve) => {
+        resolveReauth.current = resolve
+      })
+    })
+    return () => setReauthHandler(null)
+  }, [])
+
+  React.useEffect(() => {
+    setIsWarningOpen(false)
+    if (!expiresAt) return
+    const delay = expiresAt - WARNING_WINDOW_MS - Date.now()
+    if (delay > MAX_TIMER_MS) return
+
+    const timer = setTimeout(async () => {
+      const refreshed = await authApi.refresh()
+      if (!refreshed.success) setIsWarningOpen(true)
+    }, Math.max(delay, 0))
+    return () => clearTimeout(timer)
+  }, [expiresAt])
+
+  React.useEffect(() => {
+    if (!isWarningOpen) return
+    setNow(Date.now())
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [isWarningOpen])
+
+  const remaining = expiresAt ? expiresAt - now : 0
+
+  return (
+    <>
+      <AlertDialog open={isWarningOpen && !isReauthOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{remaining > 0 ? "Session expiring" : "Session expired"}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {remaining > 0
+                ? `Your session ends in ${formatCountdown(remaining)}. Sign in again to keep working without losing your place.`
+                : "Your session has ended. Sign in again to keep working without losing your place."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <Button variant="outline" onClick={signOut}>
+              Log out
+            </Button>
+            <Button
+              onClick={() => {
+                setIsWarningOpen(false)
+                setIsReauthOpen(true)
+              }}
+            >
+              Stay signed in
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <ReauthDialog
+        open={isReauthOpen}
+        username={username}
+        onSuccess={() => finishReauth(true)}
+        onSignOut={() => finishReauth(false)}
+      />
+    </>
+  )
+}
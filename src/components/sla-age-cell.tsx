@@ -0,0 +1,61 @@
+"use client"
+
+import * as React from "react"
+import { Badge } from "@/components/ui/badge"
+import { useSlaRules } from "@/hooks/use-sla-rules"
+import { defaultSlaRules, formatSlaDuration, getSlaState, SlaLevel, SlaRecord } from "@/lib/sla"
+import { AuditEntityType } from "@/lib/types"
+import { cn } from "@/lib/utils"
+
+const levelStyles: Record<SlaLevel, string> = {
+  ok: "bg-slate-50 text-slate-700 border-slate-200",
+  warning: "bg-amber-50 text-amber-700 border-amber-200",
+  breached: "bg-red-50 text-red-700 border-red-200",
+  critical: "bg-red-600 text-white border-red-700",
+  met: "bg-green-50 text-green-700 border-green-200",
+  missed: "bg-orange-50 text-orange-700 border-orange-200",
+}
+
+const levelLabels: Record<SlaLevel, string> = {
+  ok: "Waiting for first contact",
+  warning: "Approaching the first-contact target",
+  breached: "First-contact target breached",
+  critical: "First-contact target badly breached",
+  met: "First contacted within target",
+  missed: "First contacted after the target",
+}
+
+// Re-renders once a minute so waiting ages keep counting up
+function useNow() {
+  const [now, setNow] = React.useState(() => new Date())
+  React.useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(interval)
+  }, [])
+  return now
+}
+
+// Blank for records contacted before first-contact tracking existed
+export const slaAgeExportValue = (entityType: AuditEntityType) => (record: SlaRecord) => {
+  const state = getSlaState(record, entityType, defaultSlaRules)
+  return state.waiting || record.firstContactAt ? formatSlaDuration(state.minutes) : ""
+}
+
+export function SlaAgeCell({ record, entityType }: { record: SlaRecord; entityType: AuditEntityType }) {
+  const rules = useSlaRules()
+  const now = useNow()
+  const state = getSlaState(record, entityType, rules, now)
+
+  if (!state.waiting && !record.firstContactAt) {
+    return <span className="text-sm text-muted-foreground">-</span>
+  }
+
+  return (
+    <Badge
+      className={cn("border font-medium tabular-nums whitespace-nowrap", levelStyles[state.level])}
+      title={`${levelLabels[state.level]} (target ${formatSlaDuration(rules[entityType].targetMinutes)})`}
+    >
+      {state.waiting ? formatSlaDuration(state.minutes) : `Replied in ${formatSlaDuration(state.minutes)}`}
+    </Badge>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import * as React from "react"
+import { Timer } from "lucide-react"
+import { saveSlaRules, useSlaRules } from "@/hooks/use-sla-rules"
+import { useToast } from "@/hooks/use-toast"
+import { AuditEntityType, SlaRules } from "@/lib/types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+const entityLabels: Record<AuditEntityType, string> = {
+  booking: "Bookings",
+  insurance_request: "Insurance requests",
+  general_request: "General requests",
+}
+
+const toDraft = (rules: SlaRules) =>
+  Object.fromEntries(
+    Object.entries(rules).map(([entityType, rule]) => [entityType, String(rule.targetMinutes)])
+  ) as Record<AuditEntityType, string>
+
+export function SlaSettings() {
+  const rules = useSlaRules()
+  const [open, setOpen] = React.useState(false)
+  const [draft, setDraft] = React.useState(() => toDraft(rules))
+  const [isSaving, setIsSaving] = React.useState(false)
+  const { toast } = useToast()
+
+  React.useEffect(() => {
+    if (open) setDraft(toDraft(rules))
+  }, [open, rules])
+
+  const entityTypes = Object.keys(entityLabels) as AuditEntityType[]
+  const isValid = entityTypes.every((entityType) => {
+    const minutes = Number(draft[entityType])
+    return Number.isInteger(minutes) && minutes > 0
+  })
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setIsSaving(true)
+    const response = await saveSlaRules(
+      Object.fromEntries(
+        entityTypes.map((entityType) => [entityType, { targetMinutes: Number(draft[entityType]) }])
+      ) as SlaRules
+    )
+    setIsSaving(false)
+    if (!response.success) {
+      toast({ variant: "destructive", title: "Could not save SLA targets", description: response.error?.message })
+      return
+    }
+    toast({ title: "SLA targets updated" })
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Timer className="mr-2 h-4 w-4" />
+          SLA targets
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <form onSubmit={handleSave} className="grid gap-3">
+          <p className="text-sm text-muted-foreground">Minutes allowed until the first contact.</p>
+          {entityTypes.map((entityType) => (
+            <div key={entityType} className="grid grid-cols-2 items-center gap-2">
+              <Label htmlFor={`sla-${entityType}`} className="text-sm">{entityLabels[entityType]}</Label>
+              <Input
+                id={`sla-${entityType}`}
+                type="number"
+                min={1}
+                step={1}
+                value={draft[entityType]}
+                onChange={(event) => setDraft((current) => ({ ...current, [entityType]: event.target.value }))}
+              />
+            </div>
+          ))}
+          <Button type="submit" size="sm" disabled={!isValid || isSaving}>
+            {isSaving ? "Saving..." : "Save targets"}
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,61 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+interface StatusSelectProps<TStatus extends string> {
+  value: TStatus
+  // Statuses the record can move to; the current one is always listed first
+  statuses: readonly TStatus[]
+  styles: Record<TStatus, string>
+  onChange: (status: TStatus) => void
+  disabled?: boolean
+}
+
+export function StatusSelect<TStatus extends string>({ value, statuses, styles, onChange, disabled }: StatusSelectProps<TStatus>) {
+  const options = [value, ...statuses.filter((status) => status !== value)]
+
+  return (
+    <Select
+      value={value}
+      onValueChange={(next) => onChange(next as TStatus)}
+      disabled={disabled}
+    >
+      <SelectTrigger
+        className={cn(
+          "w-44 h-9 transition-all duration-200 border-2 font-medium rounded-lg py-1.5 px-3",
+          "focus:ring-2 focus:ring-offset-2 focus:ring-[hsl(var(--status-" + value + "))/40]",
+          "hover:shadow-sm active:scale-95",
+          styles[value]
+        )}
+      >
+        <div className="flex items-center gap-2">
+          <span className="truncate capitalize">
+            <SelectValue />
+          </span>
+        </div>
+      </SelectTrigger>
+      <SelectContent className="rounded-lg border-2 border-gray-200 bg-white shadow-md">
+        {options.map((status) => (
+          <SelectItem
+            key={status}
+            value={status}
+            className="px-3 py-1.5 cursor-pointer transition-colors duration-150 hover:bg-gray-50 focus:bg-gray-50"
+          >
+            <div className="flex items-center gap-2">
+              <Badge
+                className={cn(
+                  "capitalize text-sm font-medium w-full justify-start border-0 px-2 py-0.5",
+                  styles[status]
+                )}
+              >
+                {status}
+              </Badge>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
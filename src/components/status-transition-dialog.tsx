@@ -0,0 +1,135 @@
+"use client"
+
+import * as React from "react"
+import { StatusUpdateDetails } from "@/lib/api"
+import { cancellationReasonLabels, cancellationReasonValues } from "@/lib/statuses"
+import { CancellationReason } from "@/lib/types"
+import { getRequiredFields, isTerminalStatus, StatusWorkflow } from "@/lib/workflow"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { FollowUpDialog } from "@/components/follow-up-dialog"
+
+// A status change held back until the agent fills in what the workflow asks for
+export interface PendingTransition<TStatus extends string> {
+  status: TStatus
+  // Number of records being moved; more than one for bulk changes
+  recordCount: number
+  apply: (details: StatusUpdateDetails) => void
+}
+
+interface StatusTransitionDialogProps<TStatus extends string> {
+  workflow: StatusWorkflow<TStatus>
+  transition: PendingTransition<TStatus> | null
+  onConfirm: (details: StatusUpdateDetails) => void
+  onCancel: () => void
+}
+
+export function StatusTransitionDialog<TStatus extends string>({ workflow, transition, onConfirm, onCancel }: StatusTransitionDialogProps<TStatus>) {
+  const [reason, setReason] = React.useState("")
+  const [category, setCategory] = React.useState<CancellationReason | "">("")
+  const required = transition ? getRequiredFields(workflow, transition.status) : []
+  const isTerminal = !!transition && isTerminalStatus(workflow, transition.status)
+  const recordCount = transition?.recordCount ?? 1
+  const open = !!transition
+
+  React.useEffect(() => {
+    if (open) {
+      setReason("")
+      setCategory("")
+    }
+  }, [open])
+
+  if (required.includes("followUp")) {
+    return (
+      <FollowUpDialog
+        open={open}
+        recordCount={recordCount}
+        onConfirm={(followUp) => onConfirm({ followUp })}
+        onCancel={onCancel}
+      />
+    )
+  }
+
+  const needsCategory = required.includes("cancellationReason")
+  // With a category the text is extra detail, only needed when the category is "other"
+  const needsReason = required.includes("reason") || (needsCategory && category === "other")
+  const showReason = required.includes("reason") || needsCategory
+  const isValid = (!needsCategory || !!category) && (!needsReason || !!reason.trim())
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (!isValid) return
+    onConfirm({
+      ...(showReason && reason.trim() && { reason: reason.trim() }),
+      ...(needsCategory && category && { cancellationReason: category }),
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <DialogHeader>
+            <DialogTitle className="capitalize">
+              {recordCount > 1 ? `Move ${recordCount} records to ${transition?.status}?` : `Move to ${transition?.status}?`}
+            </DialogTitle>
+            {isTerminal && (
+              <DialogDescription>
+                This is a final status. {recordCount > 1 ? "These records" : "The record"} can&apos;t be moved to another status afterwards.
+              </DialogDescription>
+            )}
+          </DialogHeader>
+          {needsCategory && (
+            <div className="grid gap-2">
+              <Label htmlFor="status-category">Reason</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as CancellationReason)}>
+                <SelectTrigger id="status-category">
+                  <SelectValue placeholder="Pick a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {cancellationReasonValues.map((value) => (
+                    <SelectItem key={value} value={value}>{cancellationReasonLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {showReason && (
+            <div className="grid gap-2">
+              <Label htmlFor="status-reason">
+                {needsCategory ? (needsReason ? "Details" : "Details (optional)") : "Reason"}
+              </Label>
+              <Textarea
+                id="status-reason"
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder={needsCategory ? "Anything the team should know" : "Why is this being closed?"}
+                rows={3}
+                autoFocus={!needsCategory}
+                required={needsReason}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Confirm
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
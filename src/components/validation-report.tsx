@@ -0,0 +1,66 @@
+"use client"
+
+import * as React from "react"
+import { AlertTriangle } from "lucide-react"
+import {
+  clearRejectedRecords,
+  getRejectedRecords,
+  onValidationReportChange,
+  RejectedRecord,
+} from "@/lib/validation-report"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+
+// Development aid: lists API records the schemas dropped so contract drift is
+// noticed before it reaches agents as blank cells
+function RejectedRecordsReport() {
+  const [records, setRecords] = React.useState<RejectedRecord[]>(getRejectedRecords)
+
+  React.useEffect(() => onValidationReportChange(setRecords), [])
+
+  if (!records.length) return null
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="fixed bottom-4 right-4 z-50 gap-2 border-amber-300 bg-amber-50 text-amber-800 shadow-md hover:bg-amber-100"
+        >
+          <AlertTriangle className="h-4 w-4" />
+          {records.length} rejected {records.length === 1 ? "row" : "rows"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-semibold">Rejected API records</span>
+          <Button variant="ghost" size="sm" onClick={clearRejectedRecords}>
+            Clear
+          </Button>
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          <ul className="divide-y text-xs">
+            {records.map((record, index) => (
+              <li key={`${record.rejectedAt}-${index}`} className="space-y-1 px-4 py-2">
+                <div className="font-medium capitalize">
+                  {record.entity} <span className="font-mono normal-case text-muted-foreground">{record.id ?? "(no id)"}</span>
+                </div>
+                <ul className="list-disc pl-4 text-muted-foreground">
+                  {record.issues.map((issue) => (
+                    <li key={issue} className="font-mono">{issue}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export function ValidationReport() {
+  if (process.env.NODE_ENV === "production") return null
+  return <RejectedRecordsReport />
+}
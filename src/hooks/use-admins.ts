@@ -0,0 +1,33 @@
+import * as React from "react"
+import { adminsApi } from "@/lib/api"
+import { hasPermission, normalizeRole, Permission } from "@/lib/permissions"
+import { AdminUser } from "@/lib/types"
+
+// The admin list barely changes, so every component shares one request per page load
+let adminsRequest: Promise<AdminUser[]> | null = null
+
+const loadAdmins = () =>
+  (adminsRequest ??= adminsApi.getAll().then((response) => {
+    if (response.success && response.data) return response.data.items
+    adminsRequest = null
+    return []
+  }))
+
+export const adminCan = (admin: AdminUser, permission: Permission) =>
+  hasPermission(normalizeRole(admin.role ?? ""), permission)
+
+export function useAdmins() {
+  const [admins, setAdmins] = React.useState<AdminUser[]>([])
+
+  React.useEffect(() => {
+    let active = true
+    loadAdmins().then((loaded) => {
+      if (active) setAdmins(loaded)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return admins
+}
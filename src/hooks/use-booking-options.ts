@@ -0,0 +1,31 @@
+import * as React from "react"
+import { bookingOptionsApi } from "@/lib/api"
+import { BookingOptions } from "@/lib/types"
+
+const emptyOptions: BookingOptions = { vehicles: [], packages: [], timeSlots: [] }
+
+// The catalog only changes with a deploy, so it is loaded once per page load
+let optionsRequest: Promise<BookingOptions> | null = null
+
+const loadOptions = () =>
+  (optionsRequest ??= bookingOptionsApi.get().then((response) => {
+    if (response.success && response.data) return response.data
+    optionsRequest = null
+    return emptyOptions
+  }))
+
+export function useBookingOptions() {
+  const [options, setOptions] = React.useState<BookingOptions | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+    loadOptions().then((loaded) => {
+      if (active) setOptions(loaded)
+    })
+    return () => {
+      active = false
+    }
+  }, [])
+
+  return { options: options ?? emptyOptions, isLoading: !options }
+}
@@ -0,0 +1,12 @@
+import * as React from "react"
+
+export function useDebounce<T>(value: T, delayMs: number = 300) {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debounced
+}
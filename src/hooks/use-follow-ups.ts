@@ -0,0 +1,60 @@
+import * as React from "react"
+import { followUpsApi, isAbortError } from "@/lib/api"
+import {
+  bucketFollowUps,
+  followUpViewPermissions,
+  getFollowUpWindowEnd,
+  onFollowUpsChange,
+} from "@/lib/follow-ups"
+import { FollowUpItem } from "@/lib/types"
+import { usePermissions } from "@/hooks/use-permissions"
+
+// Re-bucketed on every poll so items roll from upcoming to today to overdue
+const POLL_INTERVAL_MS = 60 * 1000
+
+// Follow-ups due within the upcoming window, limited to records the user may view
+export function useFollowUps() {
+  const [items, setItems] = React.useState<FollowUpItem[]>([])
+  const [now, setNow] = React.useState(() => new Date())
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<string | null>(null)
+  const { can } = usePermissions()
+
+  React.useEffect(() => {
+    let controller = new AbortController()
+
+    const fetchFollowUps = async () => {
+      controller.abort()
+      controller = new AbortController()
+      const { signal } = controller
+      const fetchedAt = new Date()
+      const response = await followUpsApi.getAll({ dueBefore: getFollowUpWindowEnd(fetchedAt).toISOString() }, { signal })
+      if (isAbortError(response.error)) return
+
+      if (response.success && response.data) {
+        setItems(response.data.items)
+        setError(null)
+      } else {
+        setError(response.error?.message || "Failed to load follow-ups")
+      }
+      setNow(fetchedAt)
+      setIsLoading(false)
+    }
+
+    fetchFollowUps()
+    const interval = setInterval(fetchFollowUps, POLL_INTERVAL_MS)
+    const unsubscribe = onFollowUpsChange(fetchFollowUps)
+    return () => {
+      clearInterval(interval)
+      unsubscribe()
+      controller.abort()
+    }
+  }, [])
+
+  const buckets = React.useMemo(
+    () => bucketFollowUps(items.filter((item) => can(followUpViewPermissions[item.entityType])), now),
+    [items, now, can]
+  )
+
+  return { buckets, dueCount: buckets.overdue.length + buckets.today.length, isLoading, error }
+}
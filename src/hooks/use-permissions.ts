@@ -0,0 +1,12 @@
+import * as React from "react"
+import { getRoleFromClaims, hasPermission, Permission } from "@/lib/permissions"
+import { useSession } from "@/hooks/use-session"
+
+export function usePermissions() {
+  const session = useSession()
+
+  const role = React.useMemo(() => getRoleFromClaims(session?.claims ?? null), [session])
+  const can = React.useCallback((permission: Permission) => hasPermission(role, permission), [role])
+
+  return { role, can, isLoading: !session }
+}
@@ -0,0 +1,47 @@
+import * as React from "react"
+import { serviceCentersApi } from "@/lib/api"
+import { ServiceCenter, ServiceCenterInput } from "@/lib/types"
+
+// Read by every booking form, filter and the calendar, so the list is fetched once
+let centersRequest: Promise<ServiceCenter[]> | null = null
+const centersListeners = new Set<(centers: ServiceCenter[]) => void>()
+
+const loadCenters = () =>
+  (centersRequest ??= serviceCentersApi.getAll().then((response) => {
+    if (response.success && response.data) return response.data.items
+    centersRequest = null
+    return []
+  }))
+
+// Creates when no id is given
+export const saveServiceCenter = async (center: ServiceCenterInput, centerId?: string) => {
+  const response = centerId
+    ? await serviceCentersApi.update(centerId, center)
+    : await serviceCentersApi.create(center)
+  if (response.success && response.data) {
+    const saved = response.data
+    const current = await loadCenters()
+    const next = centerId ? current.map((item) => (item._id === centerId ? saved : item)) : [...current, saved]
+    centersRequest = Promise.resolve(next)
+    centersListeners.forEach((listener) => listener(next))
+  }
+  return response
+}
+
+export function useServiceCenters() {
+  const [centers, setCenters] = React.useState<ServiceCenter[] | null>(null)
+
+  React.useEffect(() => {
+    let active = true
+    loadCenters().then((loaded) => {
+      if (active) setCenters(loaded)
+    })
+    centersListeners.add(setCenters)
+    return () => {
+      active = false
+      centersListeners.delete(setCenters)
+    }
+  }, [])
+
+  return { centers: centers ?? [], isLoading: !centers }
+}
@@ -0,0 +1,26 @@
+import * as React from "react"
+import { getSession, onSessionChange, restoreSession } from "@/lib/api"
+import type { SessionInfo } from "@/lib/token"
+
+// The last known session. It is kept while a 401 is being re-authenticated so
+// role-gated UI doesn't flicker away behind the sign-in modal.
+export function useSession() {
+  const [session, setSession] = React.useState<SessionInfo | null>(getSession)
+
+  React.useEffect(() => {
+    let active = true
+    // After a reload the claims arrive asynchronously from the session cookie
+    restoreSession().then((restored) => {
+      if (active && restored) setSession(restored)
+    })
+    const unsubscribe = onSessionChange((next) => {
+      if (next) setSession(next)
+    })
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [])
+
+  return session
+}
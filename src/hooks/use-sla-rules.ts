@@ -0,0 +1,43 @@
+import * as React from "react"
+import { slaApi } from "@/lib/api"
+import { defaultSlaRules } from "@/lib/sla"
+import { SlaRules } from "@/lib/types"
+
+// Shared by every age cell on the page, so the rules are fetched once
+let rulesRequest: Promise<SlaRules> | null = null
+const rulesListeners = new Set<(rules: SlaRules) => void>()
+
+const loadRules = () =>
+  (rulesRequest ??= slaApi.getRules().then((response) => {
+    if (response.success && response.data) return response.data
+    rulesRequest = null
+    return defaultSlaRules
+  }))
+
+export const saveSlaRules = async (rules: SlaRules) => {
+  const response = await slaApi.updateRules(rules)
+  if (response.success && response.data) {
+    const saved = response.data
+    rulesRequest = Promise.resolve(saved)
+    rulesListeners.forEach((listener) => listener(saved))
+  }
+  return response
+}
+
+export function useSlaRules() {
+  const [rules, setRules] = React.useState<SlaRules>(defaultSlaRules)
+
+  React.useEffect(() => {
+    let active = true
+    loadRules().then((loaded) => {
+      if (active) setRules(loaded)
+    })
+    rulesListeners.add(setRules)
+    return () => {
+      active = false
+      rulesListeners.delete(setRules)
+    }
+  }, [])
+
+  return rules
+}
@@ -1,162 +1,628 @@
-import { Booking, InsuranceRequest, GeneralRequest } from './types';
+import {
+  AdminUser,
+  AssignmentSettings,
+  AuditEntityType,
+  AuditLogEntry,
+  Booking,
+  BookingAvailability,
+  BookingInput,
+  BookingOptions,
+  CancellationReason,
+  Customer,
+  DailyCapacity,
+  FollowUp,
+  FollowUpItem,
+  GeneralRequest,
+  InsuranceRequest,
+  ListPage,
+  RecordNote,
+  RescheduleInput,
+  ServiceCenter,
+  ServiceCenterInput,
+  SlaRules,
+} from './types';
+import type { SessionInfo } from './token';
+import {
+  adminUserSchema,
+  assignmentSettingsSchema,
+  auditLogEntrySchema,
+  bookingAvailabilitySchema,
+  bookingOptionsSchema,
+  bookingSchema,
+  customerSchema,
+  dailyCapacityListSchema,
+  dashboardStatsSchema,
+  DashboardStats,
+  followUpItemSchema,
+  generalRequestSchema,
+  insuranceRequestSchema,
+  recordNoteSchema,
+  serviceCenterSchema,
+  slaRulesSchema,
+  validateList,
+  validateRecord,
+} from './schemas';
+import { notifyFollowUpsChange } from './follow-ups';
 
-// Get API base URL from environment or use production default
-const getApiBaseUrl = () => {
-  if (typeof window !== 'undefined') {
-    return process.env.NEXT_PUBLIC_API_BASE_URL || 'https://drvyn-backend.vercel.app';
-  }
-  return 'https://drvyn-backend.vercel.app';
-};
+// Every call goes to this app's /api routes, which proxy to the backend server-side
+
+export type ApiError =
+  | { kind: 'network'; message: string }
+  | { kind: 'timeout'; message: string }
+  | { kind: 'aborted'; message: string }
+  | { kind: 'validation'; status: number; message: string }
+  | { kind: 'unauthorized'; status: 401; message: string }
+  | { kind: 'forbidden'; status: 403; message: string }
+  | { kind: 'server'; status: number; message: string }
+  // The response arrived but did not match the expected shape
+  | { kind: 'malformed'; message: string };
 
-const API_BASE_URL = getApiBaseUrl();
+export type ApiErrorKind = ApiError['kind'];
 
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   message?: string;
-  error?: string;
+  error?: ApiError;
 }
 
-let authToken: string | null = null;
+export interface RequestOptions {
+  // Aborts the request, e.g. from a useEffect cleanup when the component unmounts
+  signal?: AbortSignal;
+  // Per-attempt timeout in milliseconds
+  timeoutMs?: number;
+  // Extra attempts after the first one; only GET requests retry by default
+  retries?: number;
+  // Base delay for exponential backoff (doubled on every attempt)
+  retryDelayMs?: number;
+}
 
-export const setAuthToken = (token: string) => {
-  authToken = token;
-  if (typeof window !== 'undefined') {
-    localStorage.setItem('authToken', token);
-  }
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_GET_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+// Only transient failures are worth retrying; 4xx responses will fail the same way again
+const isRetryable = (error: ApiError) =>
+  error.kind === 'network' || error.kind === 'timeout' || error.kind === 'server';
+
+export const isAbortError = (error?: ApiError) => error?.kind === 'aborted';
+
+const errorFromStatus = (status: number, message: string): ApiError => {
+  if (status === 401) return { kind: 'unauthorized', status, message };
+  if (status === 403) return { kind: 'forbidden', status, message };
+  if (status >= 500) return { kind: 'server', status, message };
+  return { kind: 'validation', status, message };
 };
 
-export const getAuthToken = (): string | null => {
-  if (!authToken && typeof window !== 'undefined') {
-    authToken = localStorage.getItem('authToken');
-  }
-  return authToken;
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+const backoffDelay = (attempt: number, baseMs: number) => {
+  const exponential = Math.min(baseMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  // Add jitter so parallel dashboard requests don't retry in lockstep
+  return exponential / 2 + Math.random() * (exponential / 2);
 };
 
-export const clearAuthToken = () => {
-  authToken = null;
-  if (typeof window !== 'undefined') {
-    localStorage.removeItem('authToken');
-  }
+// The token lives in an httpOnly cookie that the /api proxy attaches to backend
+// calls; the browser only keeps the decoded claims.
+let session: SessionInfo | null = null;
+let sessionRequest: Promise<SessionInfo | null> | null = null;
+
+type SessionListener = (session: SessionInfo | null) => void;
+const sessionListeners = new Set<SessionListener>();
+
+// Notified on login, refresh and logout; returns an unsubscribe function
+export const onSessionChange = (listener: SessionListener) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
 };
 
-async function apiRequest<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<ApiResponse<T>> {
-  try {
-    const token = getAuthToken();
-    const url = `${API_BASE_URL}${endpoint}`;
-    
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...(options.headers as Record<string, string>),
-    };
+const notifySession = () => sessionListeners.forEach((listener) => listener(session));
 
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
+export const setSession = (next: SessionInfo) => {
+  session = next;
+  notifySession();
+};
 
-    const response = await fetch(url, {
-      headers,
-      ...options,
-      cache: 'no-cache',
+export const getSession = (): SessionInfo | null => session;
+
+export const clearSession = () => {
+  session = null;
+  sessionRequest = null;
+  notifySession();
+};
+
+// Restores the claims from the session cookie after a page reload
+export const restoreSession = async (): Promise<SessionInfo | null> => {
+  if (session || typeof window === 'undefined') return session;
+  sessionRequest ??= fetch('/api/auth/session', { cache: 'no-store' })
+    .then((response) => (response.ok ? response.json() : null))
+    .then((restored: SessionInfo | null) => {
+      session = restored;
+      if (session) notifySession();
+      return session;
+    })
+    .catch(() => null)
+    .finally(() => {
+      if (!session) sessionRequest = null;
     });
+  return sessionRequest;
+};
+
+// Resolves true once the user has a fresh session, false if they gave up
+type ReauthHandler = () => Promise<boolean>;
+let reauthHandler: ReauthHandler | null = null;
+let pendingReauth: Promise<boolean> | null = null;
+
+// Registered by the dashboard so an expired session can be renewed without leaving the page
+export const setReauthHandler = (handler: ReauthHandler | null) => {
+  reauthHandler = handler;
+};
+
+// Every request that hits a 401 meanwhile waits on the same attempt, then is replayed
+const reauthenticate = () => {
+  if (!reauthHandler) return Promise.resolve(false);
+  pendingReauth ??= reauthHandler().finally(() => {
+    pendingReauth = null;
+  });
+  return pendingReauth;
+};
+
+async function sendOnce<T>(
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ApiResponse<T>> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
 
     if (response.status === 401) {
-      clearAuthToken();
-      if (typeof window !== 'undefined') {
-        window.location.href = '/login';
-      }
-      throw new Error('Authentication failed');
+      return { success: false, error: errorFromStatus(401, 'Authentication failed') };
     }
 
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`API Error: ${response.status} - ${errorText}`);
-      throw new Error(`HTTP error! status: ${response.status} - ${errorText}`);
+      return {
+        success: false,
+        error: errorFromStatus(response.status, errorText || `HTTP error! status: ${response.status}`),
+      };
     }
 
     const json = await response.json();
     return { success: true, data: json } as ApiResponse<T>;
   } catch (error) {
-    console.error('API request failed:', error);
+    if (signal?.aborted) {
+      return { success: false, error: { kind: 'aborted', message: 'Request was cancelled' } };
+    }
+    if (timedOut) {
+      return { success: false, error: { kind: 'timeout', message: `Request timed out after ${timeoutMs}ms` } };
+    }
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      error: { kind: 'network', message: error instanceof Error ? error.message : 'Network request failed' },
     };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function apiRequest<T>(
+  endpoint: string,
+  options: RequestInit = {},
+  requestOptions: RequestOptions = {},
+  // Checks the response body at runtime; throwing marks the response as malformed
+  validate?: (data: unknown) => T
+): Promise<ApiResponse<T>> {
+  const method = (options.method || 'GET').toUpperCase();
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = method === 'GET' ? DEFAULT_GET_RETRIES : 0,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  } = requestOptions;
+
+  const send = async (): Promise<ApiResponse<T>> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...(options.headers as Record<string, string>),
+    };
+
+    const init: RequestInit = {
+      ...options,
+      headers,
+      cache: 'no-cache',
+    };
+
+    let result: ApiResponse<T> = { success: false };
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      result = await sendOnce<T>(endpoint, init, timeoutMs, signal);
+      if (result.success || !result.error || !isRetryable(result.error) || attempt === retries) {
+        break;
+      }
+      console.warn(`Retrying ${method} ${endpoint} after ${result.error.kind} error (attempt ${attempt + 1}/${retries})`);
+      await sleep(backoffDelay(attempt, retryDelayMs), signal);
+      if (signal?.aborted) {
+        return { success: false, error: { kind: 'aborted', message: 'Request was cancelled' } };
+      }
+    }
+    return result;
+  };
+
+  const current = getSession();
+  let result = await send();
+
+  // Session endpoints report bad credentials as 401 themselves, so only proxied calls are replayed
+  if (result.error?.kind === 'unauthorized' && !endpoint.startsWith('/api/auth/')) {
+    // A request that was still in flight when the session got renewed only needs replaying
+    if (getSession() === current) clearSession();
+    if (getSession() !== null || (await reauthenticate())) {
+      if (signal?.aborted) {
+        return { success: false, error: { kind: 'aborted', message: 'Request was cancelled' } };
+      }
+      result = await send();
+    }
   }
+
+  if (result.success && validate) {
+    try {
+      result = { ...result, data: validate(result.data) };
+    } catch (error) {
+      result = {
+        success: false,
+        error: { kind: 'malformed', message: error instanceof Error ? error.message : 'Unexpected response shape' },
+      };
+    }
+  }
+
+  if (!result.success && result.error && !isAbortError(result.error)) {
+    console.error('API request failed:', result.error);
+  }
+  return result;
 }
 
 export const authApi = {
-  login: (username: string, password: string) => 
-    apiRequest<{ access_token: string; token_type: string }>('/admin/login', {
+  login: async (username: string, password: string, options?: RequestOptions) => {
+    const response = await apiRequest<SessionInfo>('/api/auth/login', {
       method: 'POST',
       body: JSON.stringify({ username, password }),
-    }),
+    }, options);
+    if (response.success && response.data) setSession(response.data);
+    return response;
+  },
+
+  // Fails with a validation error (501) when the backend has no refresh endpoint
+  refresh: async (options?: RequestOptions) => {
+    const response = await apiRequest<SessionInfo>('/api/auth/refresh', { method: 'POST' }, options);
+    if (response.success && response.data) setSession(response.data);
+    return response;
+  },
+
+  logout: async (options?: RequestOptions) => {
+    const response = await apiRequest<{ success: boolean }>('/api/auth/logout', { method: 'POST' }, options);
+    clearSession();
+    return response;
+  },
+};
+
+export interface ListQuery {
+  statusFilter?: string;
+  phone?: string;
+  // Username of the assigned agent, or unassigned records only
+  assignedTo?: string;
+  unassigned?: boolean;
+  // ISO timestamps bounding createdAt
+  createdFrom?: string;
+  createdTo?: string;
+  // Bookings only: yyyy-MM-dd bounds on the appointment date, and its service center
+  dateFrom?: string;
+  dateTo?: string;
+  serviceCenter?: string;
+  skip?: number;
+  limit?: number;
+  search?: string;
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+}
+
+const buildListParams = ({
+  statusFilter,
+  phone,
+  assignedTo,
+  unassigned,
+  createdFrom,
+  createdTo,
+  dateFrom,
+  dateTo,
+  serviceCenter,
+  skip = 0,
+  limit = 50,
+  search,
+  sortBy,
+  sortOrder,
+}: ListQuery) => {
+  const params = new URLSearchParams();
+  if (statusFilter) params.append('status_filter', statusFilter);
+  if (phone) params.append('phone', phone);
+  if (assignedTo) params.append('assigned_to', assignedTo);
+  if (unassigned) params.append('unassigned', 'true');
+  if (createdFrom) params.append('created_from', createdFrom);
+  if (createdTo) params.append('created_to', createdTo);
+  if (dateFrom) params.append('date_from', dateFrom);
+  if (dateTo) params.append('date_to', dateTo);
+  if (serviceCenter) params.append('service_center', serviceCenter);
+  params.append('skip', skip.toString());
+  params.append('limit', limit.toString());
+  if (search) params.append('search', search);
+  if (sortBy) {
+    params.append('sort_by', sortBy);
+    params.append('sort_order', sortOrder || 'desc');
+  }
+  return params;
 };
 
+const ALL_PAGES_BATCH_SIZE = 200;
+
+// Loads every record matching the query, a batch at a time, for views that aggregate
+// client-side and must not silently drop rows past one page
+export const fetchAllPages = async <T>(
+  getPage: (query: ListQuery, options?: RequestOptions) => Promise<ApiResponse<ListPage<T>>>,
+  query: ListQuery = {},
+  options?: RequestOptions
+): Promise<ApiResponse<ListPage<T>>> => {
+  const items: T[] = [];
+  for (let skip = 0; ; skip += ALL_PAGES_BATCH_SIZE) {
+    const response = await getPage({ ...query, skip, limit: ALL_PAGES_BATCH_SIZE }, options);
+    if (!response.success || !response.data) return response;
+    items.push(...response.data.items);
+    if (!response.data.items.length || items.length >= response.data.total) {
+      return { success: true, data: { items, total: response.data.total } };
+    }
+  }
+};
+
+// Extra fields sent along with a status change
+// Which of these a status needs is declared in lib/workflow
+export interface StatusUpdateDetails {
+  followUp?: Pick<FollowUp, 'dueAt' | 'note'>;
+  reason?: string;
+  cancellationReason?: CancellationReason;
+}
+
+const updateStatus = async (endpoint: string, status: string, details: StatusUpdateDetails = {}, options?: RequestOptions) => {
+  const response = await apiRequest(endpoint, {
+    method: 'PUT',
+    body: JSON.stringify({ status, ...details }),
+  }, options);
+  if (response.success) notifyFollowUpsChange();
+  return response;
+};
+
+// Pass null to unassign
+const assign = (endpoint: string, assignedTo: string | null, options?: RequestOptions) =>
+  apiRequest(endpoint, {
+    method: 'PUT',
+    body: JSON.stringify({ assignedTo }),
+  }, options);
+
 export const bookingsApi = {
-  getAll: (statusFilter?: string, skip: number = 0, limit: number = 50) => {
-    const params = new URLSearchParams();
-    if (statusFilter) params.append('status_filter', statusFilter);
-    params.append('skip', skip.toString());
-    params.append('limit', limit.toString());
-    
-    return apiRequest<{ bookings: Booking[]; total: number }>(`/admin/bookings?${params}`);
-  },
-  updateStatus: (bookingId: string, status: string) =>
-    apiRequest(`/admin/bookings/${bookingId}/status`, {
+  getAll: (query: ListQuery = {}, options?: RequestOptions) =>
+    apiRequest<ListPage<Booking>>(`/api/bookings?${buildListParams(query)}`, {}, options, validateList(bookingSchema, 'booking')),
+  getById: (bookingId: string, options?: RequestOptions) =>
+    apiRequest<Booking>(`/api/bookings/${bookingId}`, {}, options, validateRecord(bookingSchema, 'booking')),
+  // With a source, the backend also moves that request to "booking-confirmed"
+  create: (booking: BookingInput, options?: RequestOptions) =>
+    apiRequest<Booking>('/api/bookings', {
+      method: 'POST',
+      body: JSON.stringify(booking),
+    }, options, validateRecord(bookingSchema, 'booking')),
+  update: (bookingId: string, booking: Omit<BookingInput, 'source'>, options?: RequestOptions) =>
+    apiRequest<Booking>(`/api/bookings/${bookingId}`, {
       method: 'PUT',
-      body: JSON.stringify({ status }),
-    }),
+      body: JSON.stringify(booking),
+    }, options, validateRecord(bookingSchema, 'booking')),
+  updateStatus: (bookingId: string, status: string, details?: StatusUpdateDetails, options?: RequestOptions) =>
+    updateStatus(`/api/bookings/${bookingId}/status`, status, details, options),
+  // Moves the booking to another slot and appends to its rescheduleHistory
+  reschedule: (bookingId: string, input: RescheduleInput, options?: RequestOptions) =>
+    apiRequest<Booking>(`/api/bookings/${bookingId}/reschedule`, {
+      method: 'POST',
+      body: JSON.stringify(input),
+    }, options, validateRecord(bookingSchema, 'booking')),
+  getAvailability: (serviceCenter: string, date: string, options?: RequestOptions) =>
+    apiRequest<BookingAvailability>(
+      `/api/booking-availability?${new URLSearchParams({ service_center: serviceCenter, date })}`,
+      {},
+      options,
+      validateRecord(bookingAvailabilitySchema, 'booking availability')
+    ),
+  // One entry per service center and day in the range, dates as yyyy-MM-dd
+  getCapacity: (from: string, to: string, options?: RequestOptions) =>
+    apiRequest<DailyCapacity[]>(
+      `/api/booking-capacity?${new URLSearchParams({ from, to })}`,
+      {},
+      options,
+      validateRecord(dailyCapacityListSchema, 'booking capacity')
+    ),
+  assign: (bookingId: string, assignedTo: string | null, options?: RequestOptions) =>
+    assign(`/api/bookings/${bookingId}/assignee`, assignedTo, options),
 };
 
 export const insuranceRequestsApi = {
-  getAll: (statusFilter?: string, skip: number = 0, limit: number = 50) => {
-    const params = new URLSearchParams();
-    if (statusFilter) params.append('status_filter', statusFilter);
-    params.append('skip', skip.toString());
-    params.append('limit', limit.toString());
-    
-    return apiRequest<{ requests: InsuranceRequest[]; total: number }>(`/admin/insurance-requests?${params}`);
-  },
-  updateStatus: (requestId: string, status: string) =>
-    apiRequest(`/admin/insurance-requests/${requestId}/status`, {
-      method: 'PUT',
-      body: JSON.stringify({ status }),
-    }),
+  getAll: (query: ListQuery = {}, options?: RequestOptions) =>
+    apiRequest<ListPage<InsuranceRequest>>(
+      `/api/insurance?${buildListParams(query)}`,
+      {},
+      options,
+      validateList(insuranceRequestSchema, 'insurance request')
+    ),
+  updateStatus: (requestId: string, status: string, details?: StatusUpdateDetails, options?: RequestOptions) =>
+    updateStatus(`/api/insurance/${requestId}/status`, status, details, options),
+  assign: (requestId: string, assignedTo: string | null, options?: RequestOptions) =>
+    assign(`/api/insurance/${requestId}/assignee`, assignedTo, options),
 };
 
 export const generalRequestsApi = {
-  getAll: (skip: number = 0, limit: number = 50) => {
+  getAll: (query: ListQuery = {}, options?: RequestOptions) =>
+    apiRequest<ListPage<GeneralRequest>>(
+      `/api/requests?${buildListParams(query)}`,
+      {},
+      options,
+      validateList(generalRequestSchema, 'general request')
+    ),
+  updateStatus: (requestId: string, status: string, details?: StatusUpdateDetails, options?: RequestOptions) =>
+    updateStatus(`/api/requests/${requestId}/status`, status, details, options),
+  assign: (requestId: string, assignedTo: string | null, options?: RequestOptions) =>
+    assign(`/api/requests/${requestId}/assignee`, assignedTo, options),
+};
+
+export const customersApi = {
+  getAll: (options?: RequestOptions) =>
+    apiRequest<ListPage<Customer>>('/api/customers', {}, options, validateList(customerSchema, 'customer')),
+  getByPhone: (phone: string, options?: RequestOptions) =>
+    apiRequest<Customer>(
+      `/api/customers/${encodeURIComponent(phone)}`,
+      {},
+      options,
+      validateRecord(customerSchema, 'customer')
+    ),
+};
+// --------------------------
+
+export interface AuditLogQuery {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actor?: string;
+  from?: string;
+  to?: string;
+  skip?: number;
+  limit?: number;
+}
+
+export const auditApi = {
+  getAll: ({ entityType, entityId, actor, from, to, skip = 0, limit = 50 }: AuditLogQuery = {}, options?: RequestOptions) => {
     const params = new URLSearchParams();
+    if (entityType) params.append('entity_type', entityType);
+    if (entityId) params.append('entity_id', entityId);
+    if (actor) params.append('actor', actor);
+    if (from) params.append('from', from);
+    if (to) params.append('to', to);
     params.append('skip', skip.toString());
     params.append('limit', limit.toString());
-    
-    return apiRequest<{ requests: GeneralRequest[]; total: number }>(`/admin/car-requests?${params}`);
+
+    return apiRequest<ListPage<AuditLogEntry>>(`/api/audit-logs?${params}`, {}, options, validateList(auditLogEntrySchema, 'audit log entry'));
+  },
+};
+
+export const notesApi = {
+  // Pinned notes first, then newest first
+  getAll: (entityType: AuditEntityType, entityId: string, options?: RequestOptions) => {
+    const params = new URLSearchParams({ entity_type: entityType, entity_id: entityId });
+    return apiRequest<ListPage<RecordNote>>(`/api/notes?${params}`, {}, options, validateList(recordNoteSchema, 'note'));
   },
-  updateStatus: (requestId: string, status: string) =>
-    apiRequest(`/admin/car-requests/${requestId}/status`, {
+  create: (note: Pick<RecordNote, 'entityType' | 'entityId' | 'body' | 'mentions'>, options?: RequestOptions) =>
+    apiRequest<RecordNote>('/api/notes', {
+      method: 'POST',
+      body: JSON.stringify(note),
+    }, options, validateRecord(recordNoteSchema, 'note')),
+  setPinned: (noteId: string, pinned: boolean, options?: RequestOptions) =>
+    apiRequest<RecordNote>(`/api/notes/${noteId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ pinned }),
+    }, options, validateRecord(recordNoteSchema, 'note')),
+};
+
+// Other admins, for @mentions
+export const adminsApi = {
+  getAll: (options?: RequestOptions) =>
+    apiRequest<ListPage<AdminUser>>('/api/admins', {}, options, validateList(adminUserSchema, 'admin')),
+};
+
+export const bookingOptionsApi = {
+  get: (options?: RequestOptions) =>
+    apiRequest<BookingOptions>('/api/booking-options', {}, options, validateRecord(bookingOptionsSchema, 'booking options')),
+};
+
+export const serviceCentersApi = {
+  // Includes inactive centers; callers filter for pickers
+  getAll: (options?: RequestOptions) =>
+    apiRequest<ListPage<ServiceCenter>>('/api/service-centers', {}, options, validateList(serviceCenterSchema, 'service center')),
+  create: (center: ServiceCenterInput, options?: RequestOptions) =>
+    apiRequest<ServiceCenter>('/api/service-centers', {
+      method: 'POST',
+      body: JSON.stringify(center),
+    }, options, validateRecord(serviceCenterSchema, 'service center')),
+  update: (centerId: string, center: ServiceCenterInput, options?: RequestOptions) =>
+    apiRequest<ServiceCenter>(`/api/service-centers/${centerId}`, {
       method: 'PUT',
-      body: JSON.stringify({ status }),
-    }),
+      body: JSON.stringify(center),
+    }, options, validateRecord(serviceCenterSchema, 'service center')),
 };
 
-export const customersApi = {
-  getAll: () => apiRequest<{ customers: any[] }>('/admin/customers'),
+export const assignmentsApi = {
+  getSettings: (options?: RequestOptions) =>
+    apiRequest<AssignmentSettings>('/api/assignments/settings', {}, options, validateRecord(assignmentSettingsSchema, 'assignment settings')),
+  updateSettings: (settings: AssignmentSettings, options?: RequestOptions) =>
+    apiRequest<AssignmentSettings>('/api/assignments/settings', {
+      method: 'PUT',
+      body: JSON.stringify(settings),
+    }, options, validateRecord(assignmentSettingsSchema, 'assignment settings')),
+  // Hands out every unassigned new or pending lead now, regardless of the setting
+  runRoundRobin: (options?: RequestOptions) =>
+    apiRequest<{ assigned: number }>('/api/assignments/round-robin', { method: 'POST' }, options),
+};
+
+export const slaApi = {
+  getRules: (options?: RequestOptions) =>
+    apiRequest<SlaRules>('/api/sla/rules', {}, options, validateRecord(slaRulesSchema, 'SLA rules')),
+  updateRules: (rules: SlaRules, options?: RequestOptions) =>
+    apiRequest<SlaRules>('/api/sla/rules', {
+      method: 'PUT',
+      body: JSON.stringify(rules),
+    }, options, validateRecord(slaRulesSchema, 'SLA rules')),
+};
+
+export const followUpsApi = {
+  // Records in "to-follow-up" due before the given time, soonest first
+  getAll: ({ dueBefore }: { dueBefore?: string } = {}, options?: RequestOptions) => {
+    const params = new URLSearchParams();
+    if (dueBefore) params.append('due_before', dueBefore);
+    return apiRequest<ListPage<FollowUpItem>>(
+      `/api/follow-ups?${params}`,
+      {},
+      options,
+      validateList(followUpItemSchema, 'follow-up')
+    );
+  },
 };
-// --------------------------
 
 export const dashboardApi = {
-  getStats: () => 
-    apiRequest<{
-      totalBookings: number;
-      pendingBookings: number;
-      completedBookings: number;
-      totalRevenue: number;
-      totalInsuranceRequests: number;
-      pendingInsuranceRequests: number;
-      totalCarRequests: number;
-    }>('/admin/dashboard/stats'),
+  // Without a range the backend returns all-time totals
+  getStats: (range?: { from: string; to: string }, options?: RequestOptions) => 
+    apiRequest<DashboardStats>(
+      `/api/dashboard/stats${range ? `?${new URLSearchParams(range)}` : ''}`,
+      {},
+      options,
+      validateRecord(dashboardStatsSchema, 'dashboard stats')
+    ),
 };
\ No newline at end of file
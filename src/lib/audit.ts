@@ -0,0 +1,7 @@
+import { AuditEntityType } from './types';
+
+export const auditEntityLabels: Record<AuditEntityType, string> = {
+  booking: 'Booking',
+  insurance_request: 'Insurance',
+  general_request: 'General Request',
+};
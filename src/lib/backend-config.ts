@@ -0,0 +1,14 @@
+export const PRODUCTION_API_URL = 'https://drvyn-backend.vercel.app';
+
+// Same-origin path the built-in mock backend is served from (see app/mock-api)
+export const MOCK_API_PATH = '/mock-api';
+
+// NEXT_PUBLIC_USE_MOCK_API=true forces the mock; `next dev` without a configured
+// backend also uses it so local runs never touch real customer data.
+// Server-side only: importing this into client code would inline the backend URL.
+export const isMockBackend =
+  process.env.NEXT_PUBLIC_USE_MOCK_API === 'true' ||
+  (process.env.NODE_ENV === 'development' &&
+    !process.env.API_BASE_URL &&
+    !process.env.NEXT_PUBLIC_API_BASE_URL &&
+    process.env.NEXT_PUBLIC_USE_MOCK_API !== 'false');
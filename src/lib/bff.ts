@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { AdminRole, getRoleFromClaims, hasPermission, Permission } from './permissions';
+import { getBackendUrl, isSessionValid, SESSION_COOKIE } from './session';
+import { decodeToken } from './token';
+import { ListPage } from './types';
+
+// Route handler context for dynamic segments in Next 15
+export interface RouteContext<TParams> {
+  params: Promise<TParams>;
+}
+
+interface ProxyOptions {
+  // Backend path without the query string; the incoming query is forwarded as-is
+  path: string;
+  transform?: (data: unknown) => unknown;
+  // Checked against the session's role before a write is forwarded; the backend checks again
+  authorize?: (role: AdminRole | null, body: unknown) => boolean;
+}
+
+// The common case: a write gated on a single permission
+export const requirePermission = (permission: Permission) => (role: AdminRole | null) => hasPermission(role, permission);
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+// The backend names its list key per resource (bookings, requests, customers, logs)
+export const normalizeList = (key: string) => (data: unknown): ListPage<unknown> => {
+  const record = (data ?? {}) as Record<string, unknown>;
+  const items = Array.isArray(record[key]) ? record[key] : [];
+  return { items, total: typeof record.total === 'number' ? record.total : items.length };
+};
+
+// Forwards the request with the session cookie as a bearer token. Reads are
+// private to the signed-in user and revalidated every time via ETag, so
+// repeated polls of unchanged data skip the body.
+export async function proxyToBackend(request: NextRequest, { path, transform, authorize }: ProxyOptions) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!isSessionValid(token)) {
+    return NextResponse.json({ detail: 'Not authenticated' }, { status: 401, headers: NO_STORE });
+  }
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD';
+  const bodyText = hasBody ? await request.text() : undefined;
+  if (authorize) {
+    let body: unknown = null;
+    try {
+      body = bodyText ? JSON.parse(bodyText) : null;
+    } catch {
+      // Left for the backend to reject as malformed
+    }
+    if (!authorize(getRoleFromClaims(decodeToken(token)), body)) {
+      return NextResponse.json({ detail: 'You do not have permission to do this' }, { status: 403, headers: NO_STORE });
+    }
+  }
+
+  let backendResponse: Response;
+  try {
+    backendResponse = await fetch(`${getBackendUrl(request.nextUrl.origin)}${path}${request.nextUrl.search}`, {
+      method: request.method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(hasBody ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: bodyText,
+      cache: 'no-store',
+    });
+  } catch (error) {
+    console.error(`Backend request failed: ${request.method} ${path}`, error);
+    return NextResponse.json({ detail: 'Backend unavailable' }, { status: 502, headers: NO_STORE });
+  }
+
+  if (!backendResponse.ok) {
+    return new NextResponse(await backendResponse.text(), {
+      status: backendResponse.status,
+      headers: { 'Content-Type': backendResponse.headers.get('Content-Type') || 'text/plain', ...NO_STORE },
+    });
+  }
+
+  const data = await backendResponse.json().catch(() => null);
+  const body = JSON.stringify(transform ? transform(data) : data);
+
+  if (request.method !== 'GET') {
+    return new NextResponse(body, {
+      status: backendResponse.status,
+      headers: { 'Content-Type': 'application/json', ...NO_STORE },
+    });
+  }
+
+  const etag = `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+  const headers = {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'private, no-cache',
+    ETag: etag,
+    Vary: 'Cookie',
+  };
+  if (request.headers.get('If-None-Match') === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+  return new NextResponse(body, { headers });
+}
@@ -0,0 +1,61 @@
+import { differenceInCalendarDays, endOfDay, format, startOfDay, startOfMonth, subDays } from 'date-fns';
+
+export type DateRangePreset = 'today' | '7d' | '30d' | 'this-month' | 'custom';
+
+export interface DashboardDateRange {
+  preset: DateRangePreset;
+  from: Date;
+  to: Date;
+}
+
+export const dateRangePresetLabels: Record<Exclude<DateRangePreset, 'custom'>, string> = {
+  today: 'Today',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  'this-month': 'This month',
+};
+
+export const getPresetRange = (preset: Exclude<DateRangePreset, 'custom'>, now: Date = new Date()): DashboardDateRange => {
+  const to = endOfDay(now);
+  switch (preset) {
+    case 'today':
+      return { preset, from: startOfDay(now), to };
+    case '7d':
+      return { preset, from: startOfDay(subDays(now, 6)), to };
+    case '30d':
+      return { preset, from: startOfDay(subDays(now, 29)), to };
+    case 'this-month':
+      return { preset, from: startOfMonth(now), to };
+  }
+};
+
+export const getCustomRange = (from: Date, to: Date): DashboardDateRange => ({
+  preset: 'custom',
+  from: startOfDay(from),
+  to: endOfDay(to),
+});
+
+// The equally long window that ends right before the selected one
+export const getPreviousPeriod = ({ from, to }: DashboardDateRange): { from: Date; to: Date } => {
+  const days = differenceInCalendarDays(to, from) + 1;
+  return { from: startOfDay(subDays(from, days)), to: endOfDay(subDays(from, 1)) };
+};
+
+export const isWithinRange = (value: string, { from, to }: { from: Date; to: Date }) => {
+  const date = new Date(value);
+  return date >= from && date <= to;
+};
+
+export const formatRangeLabel = (range: DashboardDateRange) => {
+  if (range.preset !== 'custom') return dateRangePresetLabels[range.preset];
+  const sameDay = differenceInCalendarDays(range.to, range.from) === 0;
+  return sameDay
+    ? format(range.from, 'MMM dd, yyyy')
+    : `${format(range.from, 'MMM dd, yyyy')} – ${format(range.to, 'MMM dd, yyyy')}`;
+};
+
+// Returns null when there is nothing to compare against
+export const percentChange = (current: number, previous: number): number | null => {
+  if (!previous) return current ? null : 0;
+  return ((current - previous) / previous) * 100;
+};
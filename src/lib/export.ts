@@ -0,0 +1,95 @@
+import type { RowData, Table } from '@tanstack/react-table';
+import { format } from 'date-fns';
+import { CartItem } from './types';
+
+declare module '@tanstack/react-table' {
+  // Type parameters must match the library's declaration for the merge to apply
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  interface ColumnMeta<TData extends RowData, TValue> {
+    // Header used in exports when the column header renders a component
+    exportHeader?: string;
+    // Flat value for CSV/XLSX cells; defaults to the column's accessor value
+    exportValue?: (row: TData) => string | number;
+  }
+}
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number;
+}
+
+export const formatINR = (amount: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR' }).format(amount || 0);
+
+export const formatExportDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : format(date, 'yyyy-MM-dd HH:mm');
+};
+
+export const flattenCartItems = (items: CartItem[] = []) =>
+  items.map((item) => `${item.packageName} × ${item.quantity} @ ${formatINR(item.price)}`).join('; ');
+
+const toCellValue = (value: unknown): string | number => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+// Mirrors the table's visible columns so exports match what the agent sees
+export function getExportColumns<TData>(table: Table<TData>): ExportColumn<TData>[] {
+  return table
+    .getVisibleLeafColumns()
+    .filter((column) => column.id !== 'select')
+    .map((column) => {
+      const { header, meta } = column.columnDef;
+      return {
+        header: meta?.exportHeader ?? (typeof header === 'string' ? header : column.id),
+        value: (row: TData) =>
+          meta?.exportValue ? meta.exportValue(row) : toCellValue(column.accessorFn?.(row, 0)),
+      };
+    });
+}
+
+// Customer-entered text starting like a formula would run when a CSV is opened in Excel.
+// Numbers stay numeric so negative amounts still sum. XLSX needs none of this: its text
+// cells are never evaluated.
+const neutralizeFormula = (value: string | number) =>
+  typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+
+const escapeCsvCell = (value: string | number) => {
+  const text = String(neutralizeFormula(value));
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export async function exportRows<T>(rows: T[], columns: ExportColumn<T>[], exportFormat: ExportFormat, baseName: string) {
+  const header = columns.map((column) => column.header);
+  const body = rows.map((row) => columns.map((column) => column.value(row)));
+  const filename = `${baseName}-${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+  if (exportFormat === 'csv') {
+    const csv = [header, ...body].map((line) => line.map(escapeCsvCell).join(',')).join('\r\n');
+    // BOM so Excel opens the ₹ sign and other UTF-8 text correctly
+    downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), filename);
+    return;
+  }
+
+  // Loaded on demand so the spreadsheet library stays out of the main bundle
+  const XLSX = await import('xlsx');
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...body]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, baseName.slice(0, 31));
+  XLSX.writeFile(workbook, filename);
+}
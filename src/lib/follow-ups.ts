@@ -0,0 +1,46 @@
+import { addDays, endOfDay, startOfDay } from 'date-fns';
+import { AuditEntityType, FollowUpItem } from './types';
+import { Permission } from './permissions';
+
+// Shared by all three status enums
+export const FOLLOW_UP_STATUS = 'to-follow-up';
+
+export type FollowUpBucket = 'overdue' | 'today' | 'upcoming';
+
+// Upcoming follow-ups further out than this are not worth surfacing yet
+export const UPCOMING_WINDOW_DAYS = 7;
+
+export const followUpViewPermissions: Record<AuditEntityType, Permission> = {
+  booking: 'bookings:view',
+  insurance_request: 'insurance:view',
+  general_request: 'requests:view',
+};
+
+export const getFollowUpWindowEnd = (now: Date = new Date()) => endOfDay(addDays(now, UPCOMING_WINDOW_DAYS));
+
+export const getFollowUpBucket = (dueAt: string, now: Date = new Date()): FollowUpBucket => {
+  const due = new Date(dueAt);
+  if (due < now) return 'overdue';
+  return due <= endOfDay(now) && due >= startOfDay(now) ? 'today' : 'upcoming';
+};
+
+export const bucketFollowUps = (items: FollowUpItem[], now: Date = new Date()) => {
+  const buckets: Record<FollowUpBucket, FollowUpItem[]> = { overdue: [], today: [], upcoming: [] };
+  [...items]
+    .sort((a, b) => a.followUp.dueAt.localeCompare(b.followUp.dueAt))
+    .forEach((item) => buckets[getFollowUpBucket(item.followUp.dueAt, now)].push(item));
+  return buckets;
+};
+
+type FollowUpsListener = () => void;
+const followUpsListeners = new Set<FollowUpsListener>();
+
+// Fired after any status change, since moving into or out of "to-follow-up" changes what is due
+export const onFollowUpsChange = (listener: FollowUpsListener) => {
+  followUpsListeners.add(listener);
+  return () => {
+    followUpsListeners.delete(listener);
+  };
+};
+
+export const notifyFollowUpsChange = () => followUpsListeners.forEach((listener) => listener());
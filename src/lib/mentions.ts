@@ -0,0 +1,33 @@
+// Usernames are word characters plus dots, dashes and underscores, e.g. @ops or @priya.n
+const MENTION_PATTERN = /@([\w.-]+)/g;
+
+// Only names of known admins count, so an email address or "@ 5pm" is left alone
+export const extractMentions = (body: string, usernames: readonly string[]) => {
+  const known = new Set(usernames.map((name) => name.toLowerCase()));
+  const found = Array.from(body.matchAll(MENTION_PATTERN), (match) => match[1].toLowerCase());
+  return Array.from(new Set(found.filter((name) => known.has(name))));
+};
+
+export type NoteSegment = { text: string; mention?: string };
+
+// Splits a note body so mentions can be rendered differently from plain text
+export const splitMentions = (body: string, mentions: readonly string[]): NoteSegment[] => {
+  const mentioned = new Set(mentions.map((name) => name.toLowerCase()));
+  const segments: NoteSegment[] = [];
+  let lastIndex = 0;
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    if (!mentioned.has(match[1].toLowerCase())) continue;
+    const index = match.index ?? 0;
+    if (index > lastIndex) segments.push({ text: body.slice(lastIndex, index) });
+    segments.push({ text: match[0], mention: match[1].toLowerCase() });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < body.length) segments.push({ text: body.slice(lastIndex) });
+  return segments;
+};
+
+// The "@partial" being typed right before the caret, if any
+export const getMentionQuery = (body: string, caret: number) => {
+  const match = /(^|\s)@([\w.-]*)$/.exec(body.slice(0, caret));
+  return match ? { query: match[2], start: caret - match[2].length - 1 } : null;
+};
@@ -0,0 +1,319 @@
+import { format, addDays, addHours, addMinutes, subDays, subMinutes } from 'date-fns';
+import {
+  AssignmentSettings,
+  AuditEntityType,
+  AuditLogEntry,
+  Booking,
+  BookingOptions,
+  BookingStatus,
+  FollowUp,
+  GeneralRequest,
+  GeneralRequestStatus,
+  InsuranceRequest,
+  InsuranceStatus,
+  RecordNote,
+  ServiceCenter,
+  ServicePackage,
+  SlaRules,
+  VehicleModel,
+} from '../types';
+import { defaultSlaRules, slaWaitingStatuses } from '../sla';
+import { cancellationReasonValues } from '../statuses';
+
+export interface MockCustomerProfile {
+  phone: string;
+  name: string;
+  address: string;
+}
+
+export interface MockStore {
+  customers: MockCustomerProfile[];
+  bookings: Booking[];
+  insuranceRequests: InsuranceRequest[];
+  generalRequests: GeneralRequest[];
+  auditLogs: AuditLogEntry[];
+  notes: RecordNote[];
+  assignmentSettings: AssignmentSettings;
+  // Index of the agent who gets the next round-robin lead, per record type
+  roundRobinCursors: Record<AuditEntityType, number>;
+  slaRules: SlaRules;
+  serviceCenters: ServiceCenter[];
+}
+
+// Fixed seed so every dev server starts from the same data
+const SEED = 20240601;
+
+// mulberry32: tiny deterministic PRNG, good enough for fixtures
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const vehicles: VehicleModel[] = [
+  { brand: 'Maruti Suzuki', model: 'Swift', fuelType: 'Petrol' },
+  { brand: 'Maruti Suzuki', model: 'Ertiga', fuelType: 'CNG' },
+  { brand: 'Hyundai', model: 'Creta', fuelType: 'Diesel' },
+  { brand: 'Hyundai', model: 'i20', fuelType: 'Petrol' },
+  { brand: 'Tata', model: 'Nexon EV', fuelType: 'Electric' },
+  { brand: 'Tata', model: 'Tiago', fuelType: 'CNG' },
+  { brand: 'Honda', model: 'City', fuelType: 'Petrol' },
+  { brand: 'Mahindra', model: 'XUV700', fuelType: 'Diesel' },
+  { brand: 'Kia', model: 'Seltos', fuelType: 'Petrol' },
+  { brand: 'Toyota', model: 'Innova Crysta', fuelType: 'Diesel' },
+  { brand: 'MG', model: 'ZS EV', fuelType: 'Electric' },
+];
+
+const packages: ServicePackage[] = [
+  { packageName: 'Basic Service', price: 2499 },
+  { packageName: 'Comprehensive Service', price: 5999 },
+  { packageName: 'AC Service', price: 1999 },
+  { packageName: 'Car Spa', price: 1499 },
+  { packageName: 'Wheel Alignment & Balancing', price: 999 },
+  { packageName: 'Battery Replacement', price: 4499 },
+];
+
+// Whitefield and Andheri can't take every fuel type, so the form's warning has something to show
+const serviceCenters: ServiceCenter[] = [
+  {
+    _id: 'sc01',
+    name: 'Drvyn Koramangala',
+    address: '80 Feet Road, Koramangala 4th Block, Bengaluru',
+    contactName: 'Suresh Kumar',
+    contactPhone: '9845012301',
+    opensAt: '09:00',
+    closesAt: '18:00',
+    dailyCapacity: 12,
+    fuelTypes: ['Petrol', 'Diesel', 'Electric', 'CNG'],
+    active: true,
+  },
+  {
+    _id: 'sc02',
+    name: 'Drvyn Whitefield',
+    address: 'ITPL Main Road, Whitefield, Bengaluru',
+    contactName: 'Lakshmi Rao',
+    contactPhone: '9845012302',
+    opensAt: '09:00',
+    closesAt: '18:00',
+    dailyCapacity: 12,
+    fuelTypes: ['Petrol', 'Diesel'],
+    active: true,
+  },
+  {
+    _id: 'sc03',
+    name: 'Drvyn HSR Layout',
+    address: '27th Main Road, HSR Layout Sector 1, Bengaluru',
+    contactPhone: '9845012303',
+    opensAt: '09:00',
+    closesAt: '18:00',
+    dailyCapacity: 10,
+    fuelTypes: ['Petrol', 'Diesel', 'Electric'],
+    active: true,
+  },
+  {
+    _id: 'sc04',
+    name: 'Drvyn Andheri',
+    address: 'Link Road, Andheri West, Mumbai',
+    contactName: 'Nikhil Desai',
+    contactPhone: '9820012304',
+    opensAt: '09:00',
+    closesAt: '18:00',
+    dailyCapacity: 12,
+    fuelTypes: ['Petrol', 'Diesel', 'CNG'],
+    active: true,
+  },
+];
+const serviceCenterNames = serviceCenters.map((center) => center.name);
+const timeSlots = ['09:00 AM', '10:30 AM', '12:00 PM', '02:00 PM', '03:30 PM', '05:00 PM'];
+
+export const bookingOptions: BookingOptions = { vehicles, packages, timeSlots };
+const policies = ['HDFC ERGO Comprehensive', 'ICICI Lombard Zero Dep', 'Bajaj Allianz Third Party', 'Tata AIG Comprehensive', 'Acko Own Damage'];
+
+const firstNames = ['Aarav', 'Priya', 'Rohan', 'Ananya', 'Vikram', 'Sneha', 'Arjun', 'Kavya', 'Rahul', 'Meera', 'Karthik', 'Divya'];
+const lastNames = ['Sharma', 'Iyer', 'Reddy', 'Patel', 'Nair', 'Gupta', 'Menon', 'Rao', 'Singh', 'Kulkarni'];
+const localities = ['Koramangala, Bengaluru', 'Indiranagar, Bengaluru', 'Whitefield, Bengaluru', 'HSR Layout, Bengaluru', 'Andheri West, Mumbai', 'Powai, Mumbai'];
+
+const bookingStatusPool: BookingStatus[] = ['pending', 'pending', 'confirmed', 'completed', 'completed', 'cancelled', 'to-follow-up', 'not-interested', 'cold-enq'];
+const insuranceStatusPool: InsuranceStatus[] = ['new', 'new', 'contacted', 'completed', 'rejected', 'to-follow-up', 'not-interested', 'cold-enq'];
+const generalStatusPool: GeneralRequestStatus[] = ['new', 'new', 'in-progress', 'resolved', 'to-follow-up', 'not-interested', 'cold-enq'];
+
+const rescheduleReasons = ['Customer travelling that day', 'Service center overbooked', 'Customer asked for a later slot'];
+const followUpNotes = ['Call back after salary day', 'Wants a quote for the comprehensive plan', 'Compare with dealer price', undefined];
+
+const noteBodies = [
+  'Called twice, no answer. Will try again in the evening.',
+  'Customer asked for a pickup slot before 10 AM. @ops can we arrange this?',
+  'Prefers WhatsApp over calls.',
+  'Quoted the comprehensive package; waiting on confirmation.',
+];
+
+const CUSTOMER_COUNT = 30;
+const BOOKING_COUNT = 90;
+const INSURANCE_COUNT = 50;
+const GENERAL_COUNT = 50;
+// Records are spread over this many days before the server started
+const HISTORY_DAYS = 90;
+
+export function createMockStore(now: Date = new Date()): MockStore {
+  const random = createRandom(SEED);
+  const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+  const randomInt = (min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+  const objectId = (prefix: string, index: number) => `${prefix}${index.toString(16).padStart(24 - prefix.length, '0')}`;
+  const createdAt = () => subMinutes(subDays(now, randomInt(0, HISTORY_DAYS - 1)), randomInt(0, 24 * 60)).toISOString();
+
+  const customers: MockCustomerProfile[] = Array.from({ length: CUSTOMER_COUNT }, (_, index) => ({
+    phone: `9${(800000000 + index * 7919).toString().padStart(9, '0')}`,
+    name: `${pick(firstNames)} ${pick(lastNames)}`,
+    address: `${randomInt(1, 250)}, ${pick(localities)}`,
+  }));
+  // Each customer keeps driving the same car across their records
+  const garage = new Map(customers.map((customer) => [customer.phone, { ...pick(vehicles), year: String(randomInt(2015, 2024)) }]));
+
+  const bookings: Booking[] = Array.from({ length: BOOKING_COUNT }, (_, index) => {
+    const customer = pick(customers);
+    const created = createdAt();
+    const cartItems = Array.from({ length: randomInt(1, 3) }, () => ({ ...pick(packages), quantity: randomInt(1, 2) }))
+      .filter((item, position, items) => items.findIndex((other) => other.packageName === item.packageName) === position);
+    const status = pick(bookingStatusPool);
+    return {
+      _id: objectId('b', index + 1),
+      ...garage.get(customer.phone)!,
+      phone: customer.phone,
+      alternatePhone: random() < 0.3 ? `7${randomInt(100000000, 999999999)}` : undefined,
+      address: customer.address,
+      date: format(addDays(new Date(created), randomInt(1, 7)), 'yyyy-MM-dd'),
+      time: pick(timeSlots),
+      serviceCenter: pick(serviceCenterNames),
+      cartItems,
+      totalPrice: cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0),
+      status,
+      statusHistory: [
+        { to: 'pending' as BookingStatus, changedAt: created },
+        ...(status === 'pending'
+          ? []
+          : [{ from: 'pending' as BookingStatus, to: status, changedAt: addHours(new Date(created), randomInt(1, 48)).toISOString(), changedBy: 'admin' }]),
+      ],
+      createdAt: created,
+    };
+  });
+
+  const insuranceRequests: InsuranceRequest[] = Array.from({ length: INSURANCE_COUNT }, (_, index) => {
+    const customer = pick(customers);
+    return {
+      _id: objectId('i', index + 1),
+      ...garage.get(customer.phone)!,
+      phone: customer.phone,
+      companyPolicyName: pick(policies),
+      createdAt: createdAt(),
+      type: 'insurance_request',
+      status: pick(insuranceStatusPool),
+    };
+  });
+
+  const generalRequests: GeneralRequest[] = Array.from({ length: GENERAL_COUNT }, (_, index) => {
+    const customer = pick(customers);
+    return {
+      _id: objectId('g', index + 1),
+      ...garage.get(customer.phone)!,
+      phone: customer.phone,
+      createdAt: createdAt(),
+      status: pick(generalStatusPool),
+    };
+  });
+
+  // Spread from three days overdue to a week out so every follow-up bucket has entries.
+  // Derived from the index rather than the PRNG so the rest of the data stays as it was.
+  let followUpIndex = 0;
+  const scheduleFollowUp = (record: { status: string; createdAt: string; followUp?: FollowUp }) => {
+    if (record.status !== 'to-follow-up') return;
+    const index = followUpIndex++;
+    record.followUp = {
+      dueAt: addHours(now, ((index * 37) % 240) - 72).toISOString(),
+      note: followUpNotes[index % followUpNotes.length],
+      setBy: 'admin',
+      setAt: record.createdAt,
+    };
+  };
+  [...bookings, ...insuranceRequests, ...generalRequests].forEach(scheduleFollowUp);
+
+  // A short thread on every fifth booking so the notes column has something to show
+  const notes: RecordNote[] = bookings
+    .filter((_, index) => index % 5 === 0)
+    .flatMap((booking, bookingIndex) =>
+      noteBodies.slice(0, (bookingIndex % 3) + 1).map((body, noteIndex) => ({
+        _id: objectId('n', bookingIndex * noteBodies.length + noteIndex + 1),
+        entityType: 'booking' as const,
+        entityId: booking._id,
+        body,
+        author: noteIndex % 2 ? 'ops' : 'admin',
+        mentions: body.includes('@ops') ? ['ops'] : [],
+        pinned: noteIndex === 0 && bookingIndex % 2 === 0,
+        createdAt: addHours(new Date(booking.createdAt), noteIndex + 1).toISOString(),
+      }))
+    );
+
+  // Bookings were first contacted when they left pending; requests get a spread of
+  // response times from minutes to most of a day so some miss the SLA
+  bookings.forEach((booking) => {
+    booking.firstContactAt = booking.statusHistory?.find((change) => change.from === 'pending')?.changedAt;
+  });
+  [...insuranceRequests, ...generalRequests].forEach((request, index) => {
+    if (slaWaitingStatuses.insurance_request.includes(request.status)) return;
+    request.firstContactAt = addMinutes(new Date(request.createdAt), 10 + ((index * 53) % 600)).toISOString();
+  });
+
+  // Cancellations cycle through every category so the breakdown chart has data;
+  // every fourth confirmed booking was moved once from an earlier slot
+  bookings
+    .filter((booking) => booking.status === 'cancelled')
+    .forEach((booking, index) => {
+      const cancellationReason = cancellationReasonValues[index % cancellationReasonValues.length];
+      const reason = cancellationReason === 'other' ? 'Car was sold' : undefined;
+      booking.cancellationReason = cancellationReason;
+      booking.statusHistory = booking.statusHistory?.map((change) =>
+        change.to === 'cancelled' ? { ...change, cancellationReason, reason } : change
+      );
+    });
+  bookings
+    .filter((booking) => booking.status === 'confirmed')
+    .forEach((booking, index) => {
+      if (index % 4) return;
+      booking.rescheduleHistory = [{
+        fromDate: format(subDays(new Date(`${booking.date}T00:00:00`), 1), 'yyyy-MM-dd'),
+        fromTime: timeSlots[index % timeSlots.length],
+        toDate: booking.date,
+        toTime: booking.time,
+        reason: rescheduleReasons[index % rescheduleReasons.length],
+        changedAt: addHours(new Date(booking.createdAt), 2).toISOString(),
+        changedBy: 'ops',
+      }];
+    });
+
+  // Roughly a third of each queue is left unassigned for the "Unassigned" filter and round-robin
+  bookings.forEach((booking, index) => {
+    booking.assignedTo = index % 3 === 0 ? null : index % 3 === 1 ? 'ops' : 'admin';
+  });
+  insuranceRequests.forEach((request, index) => {
+    request.assignedTo = index % 3 === 0 ? null : 'insurance';
+  });
+  generalRequests.forEach((request, index) => {
+    request.assignedTo = index % 3 === 0 ? null : 'ops';
+  });
+
+  return {
+    customers,
+    bookings,
+    insuranceRequests,
+    generalRequests,
+    auditLogs: [],
+    notes,
+    assignmentSettings: { roundRobin: false },
+    roundRobinCursors: { booking: 0, insurance_request: 0, general_request: 0 },
+    slaRules: defaultSlaRules,
+    serviceCenters: serviceCenters.map((center) => ({ ...center, fuelTypes: [...center.fuelTypes] })),
+  };
+}
@@ -0,0 +1,822 @@
+import { differenceInCalendarDays, eachDayOfInterval, format } from 'date-fns';
+import { decodeToken } from '../token';
+import { AdminRole, getRoleFromClaims, hasPermission, Permission, recordEditPermissions } from '../permissions';
+import { bookingStatusValues, cancellationReasonLabels, cancellationReasonValues, generalRequestStatusValues, insuranceStatusValues } from '../statuses';
+import { FOLLOW_UP_STATUS } from '../follow-ups';
+import { slaWaitingStatuses } from '../sla';
+import { canTransition, getRequiredFields, isTerminalStatus, statusWorkflows, bookingWorkflow } from '../workflow';
+import { extractMentions } from '../mentions';
+import { fuelTypes } from '../schemas';
+import { isOpenAt } from '../service-centers';
+import {
+  AuditEntityType,
+  Booking,
+  BookingAvailability,
+  BookingInput,
+  CancellationReason,
+  Customer,
+  DailyCapacity,
+  FollowUp,
+  FollowUpItem,
+  GeneralRequest,
+  InsuranceRequest,
+  RecordNote,
+  RescheduleInput,
+  ServiceCenter,
+  ServiceCenterInput,
+  SlaRules,
+  StatusChange,
+} from '../types';
+import { bookingOptions, createMockStore, MockStore } from './fixtures';
+
+export interface MockRequest {
+  method: string;
+  // Path below the mock prefix, e.g. "/admin/bookings/b01/status"
+  path: string;
+  searchParams: URLSearchParams;
+  headers: Headers;
+  body?: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+// Every mock user shares MOCK_PASSWORD; the username picks the role
+const mockUsers: Record<string, AdminRole> = {
+  admin: 'owner',
+  ops: 'ops_agent',
+  insurance: 'insurance_agent',
+  analyst: 'analyst',
+};
+const MOCK_PASSWORD = process.env.MOCK_API_PASSWORD || 'drvyn';
+// Agents who have left keep their leads but drop out of round-robin
+const inactiveUsers = new Set((process.env.MOCK_INACTIVE_USERS || '').split(',').filter(Boolean));
+// Shorten to exercise the session-expiry warning, e.g. MOCK_TOKEN_TTL_SECONDS=180
+const TOKEN_TTL_SECONDS = Number(process.env.MOCK_TOKEN_TTL_SECONDS) || 60 * 60;
+// Lives as long as the server process; restart to reseed. Kept on globalThis
+// because next dev re-evaluates this module whenever it compiles a new route.
+const globalForMock = globalThis as typeof globalThis & { drvynMockStore?: MockStore };
+const getStore = () => (globalForMock.drvynMockStore ??= createMockStore());
+
+const json = (status: number, body: unknown): MockResponse => ({ status, body });
+const notFound = (detail = 'Not found') => json(404, { detail });
+
+const base64Url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+// Unsigned token with the same claims shape the real backend issues
+const issueToken = (username: string, role: AdminRole) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({ sub: username, username, role, iat: issuedAt, exp: issuedAt + TOKEN_TTL_SECONDS }));
+  return { access_token: `${header}.${payload}.mock`, token_type: 'bearer' };
+};
+
+const authenticate = (headers: Headers) => {
+  const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  const claims = decodeToken(token ?? null);
+  if (!claims?.exp || claims.exp * 1000 < Date.now()) return null;
+  return claims;
+};
+
+// Query params parsed as dates somewhere below; checked up front so a bad value is a 400, not a crash
+const dateParams = ['created_from', 'created_to', 'date_from', 'date_to', 'from', 'to', 'date', 'due_before'];
+const findInvalidDateParam = (params: URLSearchParams) =>
+  dateParams.find((name) => {
+    const value = params.get(name);
+    return !!value && isNaN(new Date(value).getTime());
+  });
+
+const inRange = (value: string, from: string | null, to: string | null) =>
+  (!from || value >= new Date(from).toISOString()) && (!to || value <= new Date(to).toISOString());
+
+const compareValues = (a: unknown, b: unknown) => {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+};
+
+// Mirrors the backend's status_filter/phone/assigned_to/unassigned/created_*/search/sort/skip/limit semantics
+function listRecords<
+  T extends { status: string; phone: string; createdAt: string; brand: string; model: string; year: string; assignedTo?: string | null }
+>(
+  records: T[],
+  params: URLSearchParams
+) {
+  const statusFilter = params.get('status_filter');
+  const phone = params.get('phone');
+  const search = params.get('search')?.toLowerCase();
+  const sortBy = (params.get('sort_by') || 'createdAt') as keyof T;
+  const direction = params.get('sort_order') === 'asc' ? 1 : -1;
+  const skip = Math.max(Number(params.get('skip')) || 0, 0);
+  const limit = Math.max(Number(params.get('limit')) || 50, 0);
+
+  const filtered = records
+    .filter((record) => !statusFilter || record.status === statusFilter)
+    .filter((record) => !phone || record.phone === phone)
+    .filter((record) => !params.get('assigned_to') || record.assignedTo === params.get('assigned_to'))
+    .filter((record) => params.get('unassigned') !== 'true' || !record.assignedTo)
+    .filter((record) => inRange(record.createdAt, params.get('created_from'), params.get('created_to')))
+    .filter((record) =>
+      !search || [record.brand, record.model, record.year, record.phone].some((value) => value.toLowerCase().includes(search))
+    )
+    .sort((a, b) => compareValues(a[sortBy], b[sortBy]) * direction);
+
+  return { rows: filtered.slice(skip, skip + limit), total: filtered.length };
+}
+
+// Appointment-date and service-center filters only apply to bookings
+function filterSchedule(bookings: Booking[], params: URLSearchParams) {
+  const dateFrom = params.get('date_from');
+  const dateTo = params.get('date_to');
+  const serviceCenter = params.get('service_center');
+  return bookings.filter(
+    (booking) =>
+      (!dateFrom || booking.date >= dateFrom) &&
+      (!dateTo || booking.date <= dateTo) &&
+      (!serviceCenter || booking.serviceCenter === serviceCenter)
+  );
+}
+
+// Status changes are logged here, with the actor from the verified token, never by the client
+function recordStatusAudit(
+  data: MockStore,
+  entityType: AuditEntityType,
+  entityId: string,
+  previousStatus: string,
+  newStatus: string,
+  actor: string,
+  details: Pick<StatusChange, 'reason' | 'cancellationReason'> = {}
+) {
+  if (previousStatus === newStatus) return;
+  // The log keeps a single reason, so a cancellation category leads it
+  const reason = details.cancellationReason
+    ? [cancellationReasonLabels[details.cancellationReason], details.reason].filter(Boolean).join(': ')
+    : details.reason;
+  data.auditLogs.push({
+    _id: `a${Date.now().toString(16)}${data.auditLogs.length}`,
+    entityType,
+    entityId,
+    previousStatus,
+    newStatus,
+    reason,
+    actor,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+// Undoing a change back to "to-follow-up" sends no follow-up, so the previous one is reused
+function updateStatus<T extends { _id: string; status: string; followUp?: FollowUp; firstContactAt?: string }>(
+  data: MockStore,
+  records: T[],
+  id: string,
+  body: unknown,
+  allowed: readonly string[],
+  entityType: AuditEntityType,
+  actor: string,
+  onChange?: (record: T, previous: string, details: Pick<StatusChange, 'reason' | 'cancellationReason'>) => void
+): MockResponse {
+  const record = records.find((item) => item._id === id);
+  if (!record) return notFound();
+  const { status, followUp, reason, cancellationReason } = (body ?? {}) as {
+    status?: unknown;
+    followUp?: { dueAt?: unknown; note?: unknown };
+    reason?: unknown;
+    cancellationReason?: unknown;
+  };
+  if (typeof status !== 'string' || !allowed.includes(status)) {
+    return json(422, { detail: `Invalid status: ${String(status)}` });
+  }
+  const workflow = statusWorkflows[entityType];
+  if (status !== record.status && !canTransition(workflow, record.status, status)) {
+    return json(422, { detail: `Cannot move from ${record.status} to ${status}` });
+  }
+  if (getRequiredFields(workflow, status).includes('booking')) {
+    return json(422, { detail: `Create a booking from the request to move it to ${status}` });
+  }
+  const trimmedReason = typeof reason === 'string' && reason.trim() ? reason.trim() : undefined;
+  if (getRequiredFields(workflow, status).includes('reason') && !trimmedReason) {
+    return json(422, { detail: `A reason is required for ${status}` });
+  }
+  let category: CancellationReason | undefined;
+  if (getRequiredFields(workflow, status).includes('cancellationReason')) {
+    if (!cancellationReasonValues.includes(cancellationReason as CancellationReason)) {
+      return json(422, { detail: `Pick a cancellation reason for ${status}` });
+    }
+    category = cancellationReason as CancellationReason;
+    if (category === 'other' && !trimmedReason) return json(422, { detail: 'Describe the reason when picking "other"' });
+  }
+  if (status === FOLLOW_UP_STATUS) {
+    const dueAt = typeof followUp?.dueAt === 'string' ? new Date(followUp.dueAt) : null;
+    if (followUp && (!dueAt || isNaN(dueAt.getTime()))) {
+      return json(422, { detail: 'Follow-up needs a valid due date' });
+    }
+    if (!followUp && !record.followUp) {
+      return json(422, { detail: 'A follow-up date is required for to-follow-up' });
+    }
+    if (dueAt) {
+      const note = typeof followUp?.note === 'string' && followUp.note.trim() ? followUp.note.trim() : undefined;
+      record.followUp = { dueAt: dueAt.toISOString(), note, setBy: actor, setAt: new Date().toISOString() };
+    }
+  }
+  const previous = record.status;
+  record.status = status;
+  if (!record.firstContactAt && !slaWaitingStatuses[entityType].includes(status)) {
+    record.firstContactAt = new Date().toISOString();
+  }
+  recordStatusAudit(data, entityType, record._id, previous, status, actor, { reason: trimmedReason, cancellationReason: category });
+  onChange?.(record, previous, { reason: trimmedReason, cancellationReason: category });
+  return json(200, { message: 'Status updated successfully', status });
+}
+
+function listFollowUps(data: MockStore, dueBefore: string | null) {
+  const toItem = (entityType: AuditEntityType) =>
+    (record: Booking | InsuranceRequest | GeneralRequest): FollowUpItem[] =>
+      record.status === FOLLOW_UP_STATUS && record.followUp
+        ? [{
+            entityType,
+            entityId: record._id,
+            brand: record.brand,
+            model: record.model,
+            year: record.year,
+            phone: record.phone,
+            status: record.status,
+            followUp: record.followUp,
+          }]
+        : [];
+  return [
+    ...data.bookings.flatMap(toItem('booking')),
+    ...data.insuranceRequests.flatMap(toItem('insurance_request')),
+    ...data.generalRequests.flatMap(toItem('general_request')),
+  ]
+    .filter((item) => !dueBefore || item.followUp.dueAt <= new Date(dueBefore).toISOString())
+    .sort((a, b) => a.followUp.dueAt.localeCompare(b.followUp.dueAt));
+}
+
+// Statuses of leads nobody has picked up yet
+const roundRobinStatuses = ['new', 'pending'];
+
+const getCollection = (data: MockStore, entityType: AuditEntityType): (Booking | InsuranceRequest | GeneralRequest)[] =>
+  entityType === 'booking' ? data.bookings : entityType === 'insurance_request' ? data.insuranceRequests : data.generalRequests;
+
+const canWork = (username: string, entityType: AuditEntityType) =>
+  !!mockUsers[username] && hasPermission(mockUsers[username], recordEditPermissions[entityType]);
+
+// Owners can take leads by hand but are left out of the rotation
+const getRoundRobinAgents = (entityType: AuditEntityType) =>
+  Object.keys(mockUsers).filter(
+    (username) => mockUsers[username] !== 'owner' && !inactiveUsers.has(username) && canWork(username, entityType)
+  );
+
+// Advances the rotation; null when nobody is eligible
+function nextRoundRobinAgent(data: MockStore, entityType: AuditEntityType) {
+  const agents = getRoundRobinAgents(entityType);
+  if (!agents.length) return null;
+  const agent = agents[data.roundRobinCursors[entityType] % agents.length];
+  data.roundRobinCursors[entityType] += 1;
+  return agent;
+}
+
+function runRoundRobin(data: MockStore) {
+  let assigned = 0;
+  (['booking', 'insurance_request', 'general_request'] as const).forEach((entityType) => {
+    if (!getRoundRobinAgents(entityType).length) return;
+    getCollection(data, entityType)
+      .filter((record) => !record.assignedTo && roundRobinStatuses.includes(record.status))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .forEach((record) => {
+        record.assignedTo = nextRoundRobinAgent(data, entityType);
+        assigned += 1;
+      });
+  });
+  return assigned;
+}
+
+function assignRecord(data: MockStore, entityType: AuditEntityType, id: string, body: unknown): MockResponse {
+  const record = getCollection(data, entityType).find((item) => item._id === id);
+  if (!record) return notFound();
+  const { assignedTo } = (body ?? {}) as { assignedTo?: unknown };
+  if (assignedTo !== null && (typeof assignedTo !== 'string' || !canWork(assignedTo, entityType))) {
+    return json(422, { detail: `${String(assignedTo)} cannot be assigned this record` });
+  }
+  record.assignedTo = assignedTo;
+  return json(200, { message: 'Assignee updated successfully', assignedTo });
+}
+
+const withNoteCount = <T extends { _id: string }>(notes: RecordNote[]) => (record: T) => ({
+  ...record,
+  noteCount: notes.filter((note) => note.entityId === record._id).length,
+});
+
+function createNote(data: MockStore, body: unknown, actor: string): MockResponse {
+  const { entityType, entityId, body: text } = (body ?? {}) as Partial<RecordNote>;
+  if (!entityType || !entityId || typeof text !== 'string' || !text.trim()) {
+    return json(422, { detail: 'entityType, entityId and a non-empty body are required' });
+  }
+  const note: RecordNote = {
+    _id: `n${Date.now().toString(16)}${data.notes.length}`,
+    entityType,
+    entityId,
+    body: text.trim(),
+    author: actor,
+    // Resolved here rather than trusted from the client, like the real backend
+    mentions: extractMentions(text, Object.keys(mockUsers)),
+    pinned: false,
+    createdAt: new Date().toISOString(),
+  };
+  data.notes.push(note);
+  return json(201, note);
+}
+
+const requiredBookingFields = ['brand', 'model', 'fuelType', 'year', 'phone', 'address', 'date', 'time', 'serviceCenter'] as const;
+
+type BookingFields = Omit<BookingInput, 'source'> & Pick<Booking, 'totalPrice'>;
+
+// Shared by create and update: every editable field is sent each time
+function parseBookingFields(body: unknown): { fields: BookingFields } | { error: MockResponse } {
+  const input = (body ?? {}) as Partial<BookingInput>;
+  const missing = requiredBookingFields.filter((field) => typeof input[field] !== 'string' || !input[field].trim());
+  if (missing.length) return { error: json(422, { detail: `Missing ${missing.join(', ')}` }) };
+  if (!Array.isArray(input.cartItems) || !input.cartItems.length) {
+    return { error: json(422, { detail: 'At least one cart item is required' }) };
+  }
+  const cartItems = input.cartItems.map(({ packageName, price, quantity }) => ({
+    packageName: String(packageName),
+    price: Number(price) || 0,
+    quantity: Math.max(Math.floor(Number(quantity)) || 1, 1),
+  }));
+  return {
+    fields: {
+      brand: input.brand!.trim(),
+      model: input.model!.trim(),
+      fuelType: input.fuelType!,
+      year: input.year!.trim(),
+      phone: input.phone!.trim(),
+      alternatePhone: input.alternatePhone?.trim() || undefined,
+      address: input.address!.trim(),
+      date: input.date!,
+      time: input.time!,
+      serviceCenter: input.serviceCenter!,
+      cartItems,
+      totalPrice: cartItems.reduce((sum, item) => sum + item.price * item.quantity, 0),
+    },
+  };
+}
+
+// New bookings may only go to an active center, in a slot it is open for and still has room in
+function checkSlot(data: MockStore, { serviceCenter, date, time }: BookingFields): MockResponse | null {
+  const center = data.serviceCenters.find((item) => item.name === serviceCenter);
+  if (!center) return json(422, { detail: `Unknown service center: ${serviceCenter}` });
+  if (!center.active) return json(422, { detail: `${serviceCenter} is not taking bookings` });
+  const slot = getAvailability(center, data.bookings, date).slots.find((item) => item.time === time);
+  if (!slot) return json(422, { detail: `Unknown time slot: ${time}` });
+  if (!slot.capacity) return json(422, { detail: `${serviceCenter} is closed at ${time}` });
+  if (slot.booked >= slot.capacity) return json(409, { detail: `${time} on ${date} is fully booked` });
+  return null;
+}
+
+function createBooking(data: MockStore, body: unknown, actor: string): MockResponse {
+  const parsed = parseBookingFields(body);
+  if ('error' in parsed) return parsed.error;
+  const slotError = checkSlot(data, parsed.fields);
+  if (slotError) return slotError;
+
+  const { source } = (body ?? {}) as Pick<BookingInput, 'source'>;
+  let request: InsuranceRequest | GeneralRequest | undefined;
+  if (source) {
+    const requests: (InsuranceRequest | GeneralRequest)[] | undefined =
+      source.entityType === 'insurance_request' ? data.insuranceRequests
+        : source.entityType === 'general_request' ? data.generalRequests
+          : undefined;
+    request = requests?.find((r) => r._id === source.entityId);
+    if (!request) return notFound('Source request not found');
+    if (request.convertedBookingId) return json(409, { detail: 'This request was already converted to a booking' });
+    if (!canTransition(statusWorkflows[source.entityType], request.status, 'booking-confirmed')) {
+      return json(422, { detail: `Cannot convert a ${request.status} request` });
+    }
+  }
+
+  const now = new Date().toISOString();
+  const booking: Booking = {
+    _id: `b${Date.now().toString(16)}${data.bookings.length}`,
+    ...parsed.fields,
+    // Agents book after speaking to the customer, so there is no pending stage
+    status: 'confirmed',
+    statusHistory: [{ to: 'confirmed', changedAt: now, changedBy: actor }],
+    firstContactAt: now,
+    // Whoever booked it follows it through, unless leads are handed out by rotation
+    assignedTo: (data.assignmentSettings.roundRobin && nextRoundRobinAgent(data, 'booking')) || actor,
+    source: source && request ? { entityType: source.entityType, entityId: request._id } : undefined,
+    createdAt: now,
+  };
+  data.bookings.push(booking);
+  if (request) {
+    recordStatusAudit(data, source!.entityType, request._id, request.status, 'booking-confirmed', actor);
+    request.status = 'booking-confirmed';
+    request.convertedBookingId = booking._id;
+    request.firstContactAt ??= now;
+  }
+  return json(201, booking);
+}
+
+// Dropped bookings free their slot; completed ones were serviced in it
+const holdsSlot = (booking: Booking) => booking.status !== 'cancelled' && booking.status !== 'not-interested';
+
+// The daily capacity is spread evenly over the slots the center is open for
+function getAvailability(center: ServiceCenter, bookings: Booking[], date: string, excludeId?: string): BookingAvailability {
+  const taken = bookings.filter(
+    (booking) => booking._id !== excludeId && booking.serviceCenter === center.name && booking.date === date && holdsSlot(booking)
+  );
+  const openSlots = bookingOptions.timeSlots.filter((time) => isOpenAt(center, time));
+  const slotCapacity = openSlots.length ? Math.ceil(center.dailyCapacity / openSlots.length) : 0;
+  return {
+    date,
+    serviceCenter: center.name,
+    slots: bookingOptions.timeSlots.map((time) => ({
+      time,
+      booked: taken.filter((booking) => booking.time === time).length,
+      capacity: openSlots.includes(time) ? slotCapacity : 0,
+    })),
+  };
+}
+
+// The calendar asks for a month plus padding weeks
+const MAX_CAPACITY_DAYS = 62;
+
+function getDailyCapacity(data: MockStore, from: string, to: string): DailyCapacity[] {
+  const dates = eachDayOfInterval({ start: new Date(`${from}T00:00:00`), end: new Date(`${to}T00:00:00`) })
+    .map((day) => format(day, 'yyyy-MM-dd'));
+  return dates.flatMap((date) =>
+    data.serviceCenters
+      .filter((center) => center.active)
+      .map((center) => ({
+        date,
+        serviceCenter: center.name,
+        booked: data.bookings.filter(
+          (booking) => booking.date === date && booking.serviceCenter === center.name && holdsSlot(booking)
+        ).length,
+        capacity: center.dailyCapacity,
+      }))
+  );
+}
+
+function rescheduleBooking(data: MockStore, id: string, body: unknown, actor: string): MockResponse {
+  const booking = data.bookings.find((b) => b._id === id);
+  if (!booking) return notFound('Booking not found');
+  if (isTerminalStatus(bookingWorkflow, booking.status)) {
+    return json(422, { detail: `A ${booking.status} booking can't be rescheduled` });
+  }
+  const { date, time, reason } = (body ?? {}) as Partial<RescheduleInput>;
+  if (typeof date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(date)) return json(422, { detail: 'A valid date is required' });
+  if (typeof time !== 'string' || !bookingOptions.timeSlots.includes(time)) return json(422, { detail: `Unknown time slot: ${String(time)}` });
+  if (typeof reason !== 'string' || !reason.trim()) return json(422, { detail: 'A reason is required to reschedule' });
+  if (date === booking.date && time === booking.time) return json(422, { detail: 'Pick a different slot' });
+  if (date < new Date().toISOString().slice(0, 10)) return json(422, { detail: 'Date is in the past' });
+  const center = data.serviceCenters.find((item) => item.name === booking.serviceCenter);
+  if (!center) return json(422, { detail: `Unknown service center: ${booking.serviceCenter}` });
+  const slot = getAvailability(center, data.bookings, date, booking._id).slots.find((item) => item.time === time)!;
+  if (slot.booked >= slot.capacity) return json(409, { detail: `${time} on ${date} is fully booked` });
+
+  booking.rescheduleHistory = [
+    ...(booking.rescheduleHistory || []),
+    {
+      fromDate: booking.date,
+      fromTime: booking.time,
+      toDate: date,
+      toTime: time,
+      reason: reason.trim(),
+      changedAt: new Date().toISOString(),
+      changedBy: actor,
+    },
+  ];
+  booking.date = date;
+  booking.time = time;
+  return json(200, withNoteCount(data.notes)(booking));
+}
+
+function updateBooking(data: MockStore, id: string, body: unknown): MockResponse {
+  const booking = data.bookings.find((b) => b._id === id);
+  if (!booking) return notFound('Booking not found');
+  const parsed = parseBookingFields(body);
+  if ('error' in parsed) return parsed.error;
+  // Moves are checked against capacity and recorded, so they only happen through reschedule
+  const { date, time, serviceCenter } = parsed.fields;
+  if (date !== booking.date || time !== booking.time || serviceCenter !== booking.serviceCenter) {
+    return json(422, { detail: 'Reschedule the booking to change its date, time or service center' });
+  }
+  Object.assign(booking, parsed.fields);
+  return json(200, withNoteCount(data.notes)(booking));
+}
+
+const clockPattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function parseServiceCenter(
+  data: MockStore,
+  body: unknown,
+  currentId?: string
+): { center: ServiceCenterInput } | { error: MockResponse } {
+  const input = (body ?? {}) as Partial<Record<keyof ServiceCenterInput, unknown>>;
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+  const name = text(input.name);
+  if (!name) return { error: json(422, { detail: 'name is required' }) };
+  if (data.serviceCenters.some((center) => center._id !== currentId && center.name.toLowerCase() === name.toLowerCase())) {
+    return { error: json(409, { detail: `A service center named ${name} already exists` }) };
+  }
+  if (!text(input.address)) return { error: json(422, { detail: 'address is required' }) };
+  if (!/^[6-9]\d{9}$/.test(text(input.contactPhone))) return { error: json(422, { detail: 'contactPhone must be a 10-digit mobile number' }) };
+  const opensAt = text(input.opensAt);
+  const closesAt = text(input.closesAt);
+  if (!clockPattern.test(opensAt) || !clockPattern.test(closesAt) || opensAt >= closesAt) {
+    return { error: json(422, { detail: 'opensAt and closesAt must be HH:mm with opening before closing' }) };
+  }
+  const { dailyCapacity, fuelTypes: fuels, active } = input;
+  if (typeof dailyCapacity !== 'number' || !Number.isInteger(dailyCapacity) || dailyCapacity <= 0) {
+    return { error: json(422, { detail: 'dailyCapacity must be a positive integer' }) };
+  }
+  if (
+    !Array.isArray(fuels) ||
+    !fuels.length ||
+    fuels.some((fuel) => !(fuelTypes as readonly unknown[]).includes(fuel))
+  ) {
+    return { error: json(422, { detail: `fuelTypes must list at least one of ${fuelTypes.join(', ')}` }) };
+  }
+  if (typeof active !== 'boolean') return { error: json(422, { detail: 'active must be a boolean' }) };
+  return {
+    center: {
+      name,
+      address: text(input.address),
+      contactName: text(input.contactName) || undefined,
+      contactPhone: text(input.contactPhone),
+      opensAt,
+      closesAt,
+      dailyCapacity,
+      fuelTypes: fuelTypes.filter((fuel) => fuels.includes(fuel)),
+      active,
+    },
+  };
+}
+
+function buildCustomers(data: MockStore): Customer[] {
+  return data.customers
+    .map((profile) => {
+      const bookings = data.bookings.filter((b) => b.phone === profile.phone);
+      const requests = [...data.insuranceRequests, ...data.generalRequests].filter((r) => r.phone === profile.phone);
+      const records: (Booking | InsuranceRequest | GeneralRequest)[] = [...bookings, ...requests];
+      if (!records.length) return null;
+      const vehicles = new Map(records.map(({ brand, model, year }) => [`${brand}-${model}-${year}`, { brand, model, year }]));
+      return {
+        ...profile,
+        totalBookings: bookings.length,
+        totalRequests: requests.length,
+        lastSeen: records.map((r) => r.createdAt).sort().reverse()[0],
+        vehicles: Array.from(vehicles.values()),
+      };
+    })
+    .filter((customer): customer is Customer => customer !== null);
+}
+
+export function handleMockRequest({ method, path, searchParams, headers, body }: MockRequest): MockResponse {
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  if (segments[0] !== 'admin') return notFound();
+  const [, resource, id, action] = segments;
+
+  if (resource === 'login' && method === 'POST') {
+    const { username, password } = (body ?? {}) as { username?: string; password?: string };
+    const role = username ? mockUsers[username] : undefined;
+    if (!role || password !== MOCK_PASSWORD) return json(401, { detail: 'Incorrect username or password' });
+    return json(200, issueToken(username!, role));
+  }
+
+  const claims = authenticate(headers);
+  if (!claims) return json(401, { detail: 'Could not validate credentials' });
+  const actor = String(claims.username || claims.sub || 'admin');
+  const role = getRoleFromClaims(claims);
+  // Every write checks the caller's role, like the real backend; the UI hiding a control is not enough
+  const denied = (permission: Permission) =>
+    hasPermission(role, permission) ? null : json(403, { detail: 'You do not have permission to do this' });
+  const data = getStore();
+
+  const invalidDateParam = findInvalidDateParam(searchParams);
+  if (invalidDateParam) return json(400, { detail: `${invalidDateParam} must be a valid date` });
+
+  if (resource === 'refresh' && method === 'POST') {
+    return json(200, issueToken(actor, role!));
+  }
+
+  const assignableResources: Record<string, AuditEntityType> = {
+    bookings: 'booking',
+    'insurance-requests': 'insurance_request',
+    'car-requests': 'general_request',
+  };
+  if (assignableResources[resource] && id && action === 'assign' && method === 'PUT') {
+    return denied(recordEditPermissions[assignableResources[resource]]) ?? assignRecord(data, assignableResources[resource], id, body);
+  }
+
+  if (resource === 'assignments') {
+    if (id === 'settings' && method === 'GET') return json(200, data.assignmentSettings);
+    if (id === 'settings' && method === 'PUT') {
+      const forbidden = denied('assignments:manage');
+      if (forbidden) return forbidden;
+      const { roundRobin } = (body ?? {}) as { roundRobin?: unknown };
+      if (typeof roundRobin !== 'boolean') return json(422, { detail: 'roundRobin must be a boolean' });
+      data.assignmentSettings = { roundRobin };
+      // Turning it on picks up the backlog straight away
+      if (roundRobin) runRoundRobin(data);
+      return json(200, data.assignmentSettings);
+    }
+    if (id === 'round-robin' && method === 'POST') {
+      return denied('assignments:manage') ?? json(200, { assigned: runRoundRobin(data) });
+    }
+  }
+
+  if (resource === 'bookings') {
+    if (!id && method === 'GET') {
+      const { rows, total } = listRecords(filterSchedule(data.bookings, searchParams), searchParams);
+      return json(200, { bookings: rows.map(withNoteCount(data.notes)), total });
+    }
+    if (!id && method === 'POST') return denied('bookings:edit') ?? createBooking(data, body, actor);
+    if (id && !action && method === 'GET') {
+      const booking = data.bookings.find((b) => b._id === id);
+      return booking ? json(200, withNoteCount(data.notes)(booking)) : notFound('Booking not found');
+    }
+    if (id && !action && method === 'PUT') return denied('bookings:edit') ?? updateBooking(data, id, body);
+    if (id && action === 'status' && method === 'PUT') {
+      return denied('bookings:edit') ?? updateStatus(data, data.bookings, id, body, bookingStatusValues, 'booking', actor, (booking, previous, details) => {
+        booking.statusHistory = [
+          ...(booking.statusHistory || []),
+          { from: previous as Booking['status'], to: booking.status, changedAt: new Date().toISOString(), changedBy: actor, ...details },
+        ];
+        if (details.cancellationReason) booking.cancellationReason = details.cancellationReason;
+      });
+    }
+    if (id && action === 'reschedule' && method === 'POST') return denied('bookings:edit') ?? rescheduleBooking(data, id, body, actor);
+  }
+
+  if (resource === 'booking-capacity' && method === 'GET') {
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    if (!from || !to || to < from) return json(422, { detail: 'from and to dates are required' });
+    if (differenceInCalendarDays(new Date(to), new Date(from)) > MAX_CAPACITY_DAYS) {
+      return json(422, { detail: `At most ${MAX_CAPACITY_DAYS} days at a time` });
+    }
+    return json(200, getDailyCapacity(data, from, to));
+  }
+
+  if (resource === 'booking-availability' && method === 'GET') {
+    const serviceCenter = searchParams.get('service_center');
+    const date = searchParams.get('date');
+    if (!serviceCenter || !date) return json(422, { detail: 'service_center and date are required' });
+    const center = data.serviceCenters.find((item) => item.name === serviceCenter);
+    if (!center) return notFound('Service center not found');
+    return json(200, getAvailability(center, data.bookings, date));
+  }
+
+  if (resource === 'service-centers') {
+    if (!id && method === 'GET') return json(200, { service_centers: data.serviceCenters });
+    if (method === 'POST' || method === 'PUT') {
+      const forbidden = denied('settings:manage');
+      if (forbidden) return forbidden;
+    }
+    if (!id && method === 'POST') {
+      const parsed = parseServiceCenter(data, body);
+      if ('error' in parsed) return parsed.error;
+      const center: ServiceCenter = { _id: `sc${Date.now().toString(16)}`, ...parsed.center };
+      data.serviceCenters.push(center);
+      return json(201, center);
+    }
+    if (id && method === 'PUT') {
+      const center = data.serviceCenters.find((item) => item._id === id);
+      if (!center) return notFound('Service center not found');
+      const parsed = parseServiceCenter(data, body, id);
+      if ('error' in parsed) return parsed.error;
+      // Bookings reference centers by name, so a rename carries over to them
+      if (parsed.center.name !== center.name) {
+        data.bookings
+          .filter((booking) => booking.serviceCenter === center.name)
+          .forEach((booking) => { booking.serviceCenter = parsed.center.name; });
+      }
+      Object.assign(center, parsed.center);
+      return json(200, center);
+    }
+  }
+
+  if (resource === 'insurance-requests') {
+    if (!id && method === 'GET') {
+      const { rows, total } = listRecords(data.insuranceRequests, searchParams);
+      return json(200, { requests: rows.map(withNoteCount(data.notes)), total });
+    }
+    if (id && action === 'status' && method === 'PUT') {
+      return denied('insurance:edit') ?? updateStatus(data, data.insuranceRequests, id, body, insuranceStatusValues, 'insurance_request', actor);
+    }
+  }
+
+  if (resource === 'car-requests') {
+    if (!id && method === 'GET') {
+      const { rows, total } = listRecords(data.generalRequests, searchParams);
+      return json(200, { requests: rows.map(withNoteCount(data.notes)), total });
+    }
+    if (id && action === 'status' && method === 'PUT') {
+      return denied('requests:edit') ?? updateStatus(data, data.generalRequests, id, body, generalRequestStatusValues, 'general_request', actor);
+    }
+  }
+
+  if (resource === 'notes') {
+    if (!id && method === 'GET') {
+      const entityType = searchParams.get('entity_type');
+      const entityId = searchParams.get('entity_id');
+      const notes = data.notes
+        .filter((note) => note.entityType === entityType && note.entityId === entityId)
+        .sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt.localeCompare(a.createdAt));
+      return json(200, { notes, total: notes.length });
+    }
+    if (!id && method === 'POST') {
+      const { entityType } = (body ?? {}) as Partial<RecordNote>;
+      if (!entityType || !recordEditPermissions[entityType]) return json(422, { detail: 'A valid entityType is required' });
+      return denied(recordEditPermissions[entityType]) ?? createNote(data, body, actor);
+    }
+    if (id && method === 'PATCH') {
+      const note = data.notes.find((n) => n._id === id);
+      if (!note) return notFound('Note not found');
+      const forbidden = denied(recordEditPermissions[note.entityType]);
+      if (forbidden) return forbidden;
+      const { pinned } = (body ?? {}) as { pinned?: unknown };
+      if (typeof pinned !== 'boolean') return json(422, { detail: 'pinned must be a boolean' });
+      note.pinned = pinned;
+      return json(200, note);
+    }
+  }
+
+  if (resource === 'booking-options' && method === 'GET') return json(200, bookingOptions);
+
+  if (resource === 'sla-rules') {
+    if (method === 'GET') return json(200, data.slaRules);
+    if (method === 'PUT') {
+      const forbidden = denied('settings:manage');
+      if (forbidden) return forbidden;
+      const rules = (body ?? {}) as Partial<Record<AuditEntityType, { targetMinutes?: unknown }>>;
+      const entityTypes = Object.keys(data.slaRules) as AuditEntityType[];
+      const invalid = entityTypes.filter((entityType) => {
+        const target = rules[entityType]?.targetMinutes;
+        return typeof target !== 'number' || !Number.isInteger(target) || target <= 0;
+      });
+      if (invalid.length) return json(422, { detail: `targetMinutes must be a positive integer for ${invalid.join(', ')}` });
+      data.slaRules = Object.fromEntries(
+        entityTypes.map((entityType) => [entityType, { targetMinutes: rules[entityType]!.targetMinutes as number }])
+      ) as SlaRules;
+      return json(200, data.slaRules);
+    }
+  }
+
+  if (resource === 'users' && method === 'GET') {
+    return json(200, {
+      users: Object.entries(mockUsers).map(([username, role]) => ({ username, role, active: !inactiveUsers.has(username) })),
+    });
+  }
+
+  if (resource === 'follow-ups' && method === 'GET') {
+    const followUps = listFollowUps(data, searchParams.get('due_before'));
+    return json(200, { follow_ups: followUps, total: followUps.length });
+  }
+
+  if (resource === 'customers' && method === 'GET') {
+    const customers = buildCustomers(data);
+    if (!id) return json(200, { customers });
+    const customer = customers.find((c) => c.phone === id);
+    return customer ? json(200, customer) : notFound('Customer not found');
+  }
+
+  if (resource === 'audit-logs') {
+    if (method === 'GET') {
+      const entityType = searchParams.get('entity_type') as AuditEntityType | null;
+      const entityId = searchParams.get('entity_id');
+      const actorFilter = searchParams.get('actor')?.toLowerCase();
+      const skip = Number(searchParams.get('skip')) || 0;
+      const limit = Number(searchParams.get('limit')) || 50;
+      const logs = data.auditLogs
+        .filter((log) => !entityType || log.entityType === entityType)
+        .filter((log) => !entityId || log.entityId === entityId)
+        .filter((log) => !actorFilter || log.actor.toLowerCase().includes(actorFilter))
+        .filter((log) => inRange(log.timestamp, searchParams.get('from'), searchParams.get('to')))
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+      return json(200, { logs: logs.slice(skip, skip + limit), total: logs.length });
+    }
+  }
+
+  if (resource === 'dashboard' && id === 'stats' && method === 'GET') {
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+    const bookings = data.bookings.filter((b) => inRange(b.createdAt, from, to));
+    const insurance = data.insuranceRequests.filter((i) => inRange(i.createdAt, from, to));
+    return json(200, {
+      totalBookings: bookings.length,
+      pendingBookings: bookings.filter((b) => b.status === 'pending').length,
+      completedBookings: bookings.filter((b) => b.status === 'completed').length,
+      totalRevenue: bookings.filter((b) => b.status === 'completed').reduce((sum, b) => sum + b.totalPrice, 0),
+      totalInsuranceRequests: insurance.length,
+      pendingInsuranceRequests: insurance.filter((i) => i.status === 'new').length,
+      totalCarRequests: data.generalRequests.filter((g) => inRange(g.createdAt, from, to)).length,
+    });
+  }
+
+  return notFound();
+}
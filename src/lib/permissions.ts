@@ -0,0 +1,95 @@
+import type { TokenClaims } from './token';
+import type { AuditEntityType } from './types';
+
+export type AdminRole = 'owner' | 'ops_agent' | 'insurance_agent' | 'analyst';
+
+export type Permission =
+  | 'revenue:view'
+  | 'customers:view'
+  | 'bookings:view'
+  | 'bookings:edit'
+  | 'insurance:view'
+  | 'insurance:edit'
+  | 'requests:view'
+  | 'requests:edit'
+  | 'audit:view'
+  | 'assignments:manage'
+  | 'settings:manage';
+
+export const adminRoleLabels: Record<AdminRole, string> = {
+  owner: 'Owner',
+  ops_agent: 'Ops Agent',
+  insurance_agent: 'Insurance Agent',
+  analyst: 'Analyst (read-only)',
+};
+
+const rolePermissions: Record<AdminRole, readonly Permission[]> = {
+  owner: [
+    'revenue:view',
+    'customers:view',
+    'bookings:view',
+    'bookings:edit',
+    'insurance:view',
+    'insurance:edit',
+    'requests:view',
+    'requests:edit',
+    'audit:view',
+    'assignments:manage',
+    'settings:manage',
+  ],
+  ops_agent: ['customers:view', 'bookings:view', 'bookings:edit', 'insurance:view', 'requests:view', 'requests:edit'],
+  insurance_agent: ['customers:view', 'insurance:view', 'insurance:edit', 'requests:view'],
+  analyst: ['revenue:view', 'customers:view', 'bookings:view', 'insurance:view', 'requests:view', 'audit:view'],
+};
+
+// Dashboard sections that need more than a valid session, checked by middleware and the sidebar
+export const routePermissions: Record<string, Permission> = {
+  '/dashboard/customers': 'customers:view',
+  '/dashboard/bookings': 'bookings:view',
+  '/dashboard/schedule': 'bookings:view',
+  '/dashboard/insurance-requests': 'insurance:view',
+  '/dashboard/requests': 'requests:view',
+  '/dashboard/audit': 'audit:view',
+  '/dashboard/settings': 'settings:manage',
+};
+
+const roleAliases: Record<string, AdminRole> = {
+  owner: 'owner',
+  admin: 'owner',
+  superadmin: 'owner',
+  ops: 'ops_agent',
+  ops_agent: 'ops_agent',
+  operations: 'ops_agent',
+  insurance: 'insurance_agent',
+  insurance_agent: 'insurance_agent',
+  analyst: 'analyst',
+  read_only: 'analyst',
+  readonly: 'analyst',
+};
+
+// An unrecognised role falls back to the least-privileged one
+export const normalizeRole = (raw: string): AdminRole =>
+  roleAliases[raw.trim().toLowerCase().replace(/[\s-]+/g, '_')] ?? 'analyst';
+
+// A token without a role claim gets read-only access rather than anything more
+export const getRoleFromClaims = (claims: TokenClaims | null): AdminRole | null => {
+  if (!claims) return null;
+  const raw = claims.role ?? (Array.isArray(claims.roles) ? claims.roles[0] : undefined);
+  if (typeof raw !== 'string' || !raw.trim()) return 'analyst';
+  return normalizeRole(raw);
+};
+
+export const hasPermission = (role: AdminRole | null, permission: Permission) =>
+  !!role && rolePermissions[role].includes(permission);
+
+// Needed to change, assign or annotate a record of each type
+export const recordEditPermissions: Record<AuditEntityType, Permission> = {
+  booking: 'bookings:edit',
+  insurance_request: 'insurance:edit',
+  general_request: 'requests:edit',
+};
+
+export const getRoutePermission = (pathname: string): Permission | undefined => {
+  const route = Object.keys(routePermissions).find((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+  return route ? routePermissions[route] : undefined;
+};
@@ -0,0 +1,332 @@
+import { z } from 'zod';
+import { bookingStatusValues, cancellationReasonValues, generalRequestStatusValues, insuranceStatusValues } from './statuses';
+import { AdminUser, AssignmentSettings, AuditEntityType, AuditLogEntry, Booking, BookingAvailability, BookingOptions, BookingStatus, CancellationReason, Customer, DailyCapacity, FollowUpItem, FuelType, GeneralRequest, InsuranceRequest, ListPage, RecordNote, ServiceCenter, SlaRules } from './types';
+import { reportRejectedRecords } from './validation-report';
+import { defaultSlaRules } from './sla';
+
+// Schemas are lenient: cosmetic fields fall back to a default, while a record
+// without an id, a known status or a creation date is rejected on its own
+// instead of failing the whole response. Unknown keys pass through untouched.
+
+const text = (fallback = '') => z.union([z.string(), z.number()]).transform(String).catch(fallback);
+const amount = (fallback = 0) => z.coerce.number().catch(fallback);
+const optionalText = z.union([z.string(), z.number()]).transform(String).optional().catch(undefined);
+
+export const fuelTypes = ['Petrol', 'Diesel', 'Electric', 'CNG'] as const;
+export const isKnownFuelType = (value: string): value is FuelType => (fuelTypes as readonly string[]).includes(value);
+// Accepts "petrol", "cng" and similar casing differences
+const normalizeFuelType = (value: unknown) =>
+  typeof value === 'string' ? fuelTypes.find((fuel) => fuel.toLowerCase() === value.trim().toLowerCase()) ?? value.trim() : value;
+const fuelType = z.preprocess(normalizeFuelType, z.enum(fuelTypes));
+// Records keep names outside the list (e.g. "Hybrid") as text; agents are warned instead of losing the lead
+const recordFuelType = z.preprocess(normalizeFuelType, z.string().min(1)).catch('Unknown');
+
+const id = z.union([z.string().min(1), z.number()]).transform(String);
+const auditEntityType = z.enum(['booking', 'insurance_request', 'general_request']);
+const timestamp = z.string().min(1);
+
+// Aliases map retired status names onto their replacement
+const statusEnum = <T extends string>(values: readonly T[], aliases: Record<string, T> = {}) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' && value in aliases ? aliases[value] : value),
+    z.enum(values as unknown as [T, ...T[]])
+  );
+
+// Older bookings may still carry the "booking-confirmed" duplicate of "confirmed"
+const bookingStatusAliases: Record<string, BookingStatus> = { 'booking-confirmed': 'confirmed' };
+
+const cartItemSchema = z.object({
+  packageName: text('Unknown package'),
+  price: amount(),
+  quantity: amount(1),
+});
+
+// Categories added on the backend later show up without one rather than failing the record
+const optionalCancellationReason = z
+  .enum(cancellationReasonValues as [CancellationReason, ...CancellationReason[]])
+  .optional()
+  .catch(undefined);
+
+const statusChangeSchema = <T extends string>(values: readonly T[], aliases?: Record<string, T>) =>
+  z.object({
+    from: statusEnum(values, aliases).optional().catch(undefined),
+    to: statusEnum(values, aliases),
+    changedAt: timestamp,
+    changedBy: optionalText,
+    reason: optionalText,
+    cancellationReason: optionalCancellationReason,
+  });
+
+const rescheduleSchema = z.object({
+  fromDate: text(),
+  fromTime: text(),
+  toDate: text(),
+  toTime: text(),
+  reason: text(),
+  changedAt: timestamp,
+  changedBy: optionalText,
+});
+
+const followUpSchema = z.object({
+  dueAt: timestamp,
+  note: optionalText,
+  setBy: optionalText,
+  setAt: optionalText,
+});
+
+// A malformed follow-up shouldn't cost the whole record
+const optionalFollowUp = followUpSchema.optional().catch(undefined);
+
+export const bookingSchema: z.ZodType<Booking, z.ZodTypeDef, unknown> = z
+  .object({
+    _id: id,
+    brand: text(),
+    model: text(),
+    fuelType: recordFuelType,
+    year: text(),
+    phone: text(),
+    date: text(),
+    time: text(),
+    address: text(),
+    alternatePhone: optionalText,
+    serviceCenter: text(),
+    totalPrice: amount(),
+    cartItems: z.array(cartItemSchema).catch([]),
+    status: statusEnum(bookingStatusValues, bookingStatusAliases),
+    statusHistory: z.array(statusChangeSchema(bookingStatusValues, bookingStatusAliases)).optional().catch(undefined),
+    rescheduleHistory: z.array(rescheduleSchema).optional().catch(undefined),
+    cancellationReason: optionalCancellationReason,
+    followUp: optionalFollowUp,
+    assignedTo: z.string().nullable().optional().catch(undefined),
+    firstContactAt: z.string().optional().catch(undefined),
+    source: z
+      .object({ entityType: z.enum(['insurance_request', 'general_request']), entityId: z.string().min(1) })
+      .optional()
+      .catch(undefined),
+    noteCount: z.coerce.number().optional().catch(undefined),
+    createdAt: timestamp,
+  })
+  .passthrough();
+
+export const insuranceRequestSchema: z.ZodType<InsuranceRequest, z.ZodTypeDef, unknown> = z
+  .object({
+    _id: id,
+    brand: text(),
+    model: text(),
+    fuelType: recordFuelType,
+    year: text(),
+    phone: text(),
+    companyPolicyName: text(),
+    createdAt: timestamp,
+    type: z.literal('insurance_request').catch('insurance_request'),
+    status: statusEnum(insuranceStatusValues),
+    followUp: optionalFollowUp,
+    assignedTo: z.string().nullable().optional().catch(undefined),
+    firstContactAt: z.string().optional().catch(undefined),
+    convertedBookingId: optionalText,
+    noteCount: z.coerce.number().optional().catch(undefined),
+  })
+  .passthrough();
+
+export const generalRequestSchema: z.ZodType<GeneralRequest, z.ZodTypeDef, unknown> = z
+  .object({
+    _id: id,
+    brand: text(),
+    model: text(),
+    fuelType: recordFuelType,
+    year: text(),
+    phone: text(),
+    createdAt: timestamp,
+    status: statusEnum(generalRequestStatusValues),
+    followUp: optionalFollowUp,
+    assignedTo: z.string().nullable().optional().catch(undefined),
+    firstContactAt: z.string().optional().catch(undefined),
+    convertedBookingId: optionalText,
+    noteCount: z.coerce.number().optional().catch(undefined),
+  })
+  .passthrough();
+
+export const customerSchema: z.ZodType<Customer, z.ZodTypeDef, unknown> = z
+  .object({
+    phone: id,
+    name: text(),
+    totalBookings: amount(),
+    totalRequests: amount(),
+    lastSeen: text(),
+    vehicles: z.array(z.object({ brand: text(), model: text(), year: text() })).catch([]),
+    address: text(),
+  })
+  .passthrough();
+
+// The trail is read-only history, so only what identifies the change is required
+export const auditLogEntrySchema: z.ZodType<AuditLogEntry, z.ZodTypeDef, unknown> = z
+  .object({
+    _id: id.optional().catch(undefined),
+    entityType: auditEntityType,
+    entityId: id,
+    previousStatus: text(),
+    newStatus: text(),
+    reason: optionalText,
+    actor: text('unknown'),
+    timestamp,
+  })
+  .passthrough();
+
+export const followUpItemSchema: z.ZodType<FollowUpItem, z.ZodTypeDef, unknown> = z
+  .object({
+    entityType: auditEntityType,
+    entityId: id,
+    brand: text(),
+    model: text(),
+    year: text(),
+    phone: text(),
+    status: text(),
+    followUp: followUpSchema,
+  })
+  .passthrough();
+
+export const recordNoteSchema: z.ZodType<RecordNote, z.ZodTypeDef, unknown> = z
+  .object({
+    _id: id,
+    entityType: auditEntityType,
+    entityId: id,
+    body: z.string(),
+    author: text('unknown'),
+    mentions: z.array(z.string()).catch([]),
+    pinned: z.boolean().catch(false),
+    createdAt: timestamp,
+  })
+  .passthrough();
+
+export const adminUserSchema: z.ZodType<AdminUser, z.ZodTypeDef, unknown> = z
+  .object({
+    username: z.string().min(1),
+    role: optionalText,
+    active: z.boolean().optional().catch(undefined),
+  })
+  .passthrough();
+
+export const bookingOptionsSchema: z.ZodType<BookingOptions, z.ZodTypeDef, unknown> = z.object({
+  vehicles: z.array(z.object({ brand: z.string().min(1), model: z.string().min(1), fuelType })).catch([]),
+  packages: z
+    .array(z.object({ packageName: z.string().min(1), price: z.coerce.number() }))
+    .catch([]),
+  timeSlots: z.array(z.string().min(1)).catch([]),
+});
+
+export const bookingAvailabilitySchema: z.ZodType<BookingAvailability, z.ZodTypeDef, unknown> = z.object({
+  date: text(),
+  serviceCenter: text(),
+  slots: z
+    .array(z.object({ time: z.string().min(1), booked: z.coerce.number(), capacity: z.coerce.number() }))
+    .catch([]),
+});
+
+// Unknown fuel names are dropped rather than failing the center
+const fuelTypeList = z
+  .array(z.unknown())
+  .transform((values) => values.flatMap((value) => {
+    const result = fuelType.safeParse(value);
+    return result.success ? [result.data] : [];
+  }))
+  .catch([]);
+
+export const serviceCenterSchema: z.ZodType<ServiceCenter, z.ZodTypeDef, unknown> = z
+  .object({
+    _id: id,
+    name: z.string().min(1),
+    address: text(),
+    contactName: optionalText,
+    contactPhone: text(),
+    opensAt: text('09:00'),
+    closesAt: text('18:00'),
+    dailyCapacity: amount(),
+    fuelTypes: fuelTypeList,
+    active: z.boolean().catch(true),
+  })
+  .passthrough();
+
+export const dailyCapacityListSchema: z.ZodType<DailyCapacity[], z.ZodTypeDef, unknown> = z.array(
+  z.object({
+    date: z.string().min(1),
+    serviceCenter: z.string().min(1),
+    booked: z.coerce.number(),
+    capacity: z.coerce.number(),
+  })
+);
+
+export const assignmentSettingsSchema: z.ZodType<AssignmentSettings, z.ZodTypeDef, unknown> = z.object({
+  roundRobin: z.boolean().catch(false),
+});
+
+// An entity missing from the backend's rules keeps the default target
+const slaRuleSchema = (entityType: AuditEntityType) =>
+  z.object({ targetMinutes: z.coerce.number().int().positive() }).catch(defaultSlaRules[entityType]);
+
+export const slaRulesSchema: z.ZodType<SlaRules, z.ZodTypeDef, unknown> = z.object({
+  booking: slaRuleSchema('booking'),
+  insurance_request: slaRuleSchema('insurance_request'),
+  general_request: slaRuleSchema('general_request'),
+});
+
+export const dashboardStatsSchema = z.object({
+  totalBookings: amount(),
+  pendingBookings: amount(),
+  completedBookings: amount(),
+  totalRevenue: amount(),
+  totalInsuranceRequests: amount(),
+  pendingInsuranceRequests: amount(),
+  totalCarRequests: amount(),
+});
+
+export type DashboardStats = z.infer<typeof dashboardStatsSchema>;
+
+const listPageSchema = z.object({
+  items: z.array(z.unknown()),
+  total: z.coerce.number().optional().catch(undefined),
+});
+
+const formatIssues = (error: z.ZodError) =>
+  error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+
+const recordId = (record: unknown) => {
+  const value = (record as { _id?: unknown; phone?: unknown } | null)?._id ?? (record as { phone?: unknown } | null)?.phone;
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+export class ResponseShapeError extends Error {
+  constructor(entity: string, issues: string[]) {
+    super(`Unexpected ${entity} response: ${issues.join('; ')}`);
+    this.name = 'ResponseShapeError';
+  }
+}
+
+// Validates each row on its own; bad rows are dropped and reported, the rest render
+export const validateList = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, entity: string) =>
+  (data: unknown): ListPage<T> => {
+    const page = listPageSchema.safeParse(data);
+    if (!page.success) throw new ResponseShapeError(entity, formatIssues(page.error));
+
+    const items: T[] = [];
+    const rejected = page.data.items.flatMap((record) => {
+      const result = schema.safeParse(record);
+      if (result.success) {
+        items.push(result.data);
+        return [];
+      }
+      return [{ entity, id: recordId(record), issues: formatIssues(result.error), record }];
+    });
+    reportRejectedRecords(rejected);
+
+    // Rejected rows still exist server-side, so they keep counting towards the total
+    return { items, total: page.data.total ?? page.data.items.length };
+  };
+
+export const validateRecord = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, entity: string) =>
+  (data: unknown): T => {
+    const result = schema.safeParse(data);
+    if (result.success) return result.data;
+    const issues = formatIssues(result.error);
+    reportRejectedRecords([{ entity, id: recordId(data), issues, record: data }]);
+    throw new ResponseShapeError(entity, issues);
+  };
@@ -0,0 +1,23 @@
+import { slotMinutes } from './slots';
+import { ServiceCenter } from './types';
+
+export const findServiceCenter = (centers: ServiceCenter[], name: string) =>
+  centers.find((center) => center.name === name);
+
+// Unknown centers (e.g. names from before the module existed) are not flagged; fuel
+// types outside the known list always are, since no center can list them
+export const isFuelTypeUnsupported = (centers: ServiceCenter[], name: string, fuelType: string) => {
+  const center = findServiceCenter(centers, name);
+  return !!center && !center.fuelTypes.some((fuel) => fuel === fuelType);
+};
+
+const clockMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// A slot is bookable when it starts within the center's operating hours
+export const isOpenAt = (center: Pick<ServiceCenter, 'opensAt' | 'closesAt'>, slot: string) => {
+  const start = slotMinutes(slot);
+  return start >= clockMinutes(center.opensAt) && start < clockMinutes(center.closesAt);
+};
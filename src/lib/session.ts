@@ -0,0 +1,39 @@
+import { decodeToken, SessionInfo } from './token';
+import { isMockBackend, MOCK_API_PATH, PRODUCTION_API_URL } from './backend-config';
+
+export const SESSION_COOKIE = 'drvyn_session';
+
+// Used by route handlers only, so the browser never needs to know it. The mock
+// backend is served by this app, hence the request origin.
+export const getBackendUrl = (origin: string) =>
+  isMockBackend
+    ? `${origin}${MOCK_API_PATH}`
+    : process.env.API_BASE_URL || process.env.NEXT_PUBLIC_API_BASE_URL || PRODUCTION_API_URL;
+
+// Milliseconds since epoch, or null when the token carries no exp claim
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeToken(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+export const isSessionValid = (token?: string | null): token is string => {
+  if (!token) return false;
+  const expiry = getTokenExpiry(token);
+  return expiry === null || expiry > Date.now();
+};
+
+export const toSessionInfo = (token: string): SessionInfo => ({
+  claims: decodeToken(token) ?? {},
+  expiresAt: getTokenExpiry(token),
+});
+
+export const sessionCookieOptions = (token: string) => {
+  const expiry = getTokenExpiry(token);
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    ...(expiry ? { expires: new Date(expiry) } : {}),
+  };
+};
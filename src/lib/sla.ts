@@ -0,0 +1,106 @@
+import { differenceInMinutes, eachDayOfInterval, format, startOfDay } from 'date-fns';
+import { AuditEntityType, SlaRules } from './types';
+
+// Statuses that mean nobody has contacted the customer yet
+export const slaWaitingStatuses: Record<AuditEntityType, readonly string[]> = {
+  booking: ['pending'],
+  insurance_request: ['new'],
+  general_request: ['new'],
+};
+
+// Used until the backend rules load, and when it has none configured
+export const defaultSlaRules: SlaRules = {
+  booking: { targetMinutes: 120 },
+  insurance_request: { targetMinutes: 120 },
+  general_request: { targetMinutes: 120 },
+};
+
+// Share of the target after which a waiting record turns amber
+const WARNING_RATIO = 0.75;
+// Waiting this many times the target is escalated beyond a plain breach
+const CRITICAL_RATIO = 2;
+
+export type SlaLevel = 'ok' | 'warning' | 'breached' | 'critical' | 'met' | 'missed';
+
+export interface SlaRecord {
+  status: string;
+  createdAt: string;
+  firstContactAt?: string;
+}
+
+export interface SlaState {
+  // Minutes waited so far, or until first contact once it happened
+  minutes: number;
+  waiting: boolean;
+  level: SlaLevel;
+}
+
+export const getSlaState = (
+  record: SlaRecord,
+  entityType: AuditEntityType,
+  rules: SlaRules,
+  now: Date = new Date()
+): SlaState => {
+  const { targetMinutes } = rules[entityType];
+  const waiting = slaWaitingStatuses[entityType].includes(record.status);
+  const end = waiting ? now : record.firstContactAt ? new Date(record.firstContactAt) : null;
+  const minutes = end ? Math.max(differenceInMinutes(end, new Date(record.createdAt)), 0) : 0;
+
+  if (!waiting) {
+    // Records contacted before first-contact tracking existed count as met
+    return { minutes, waiting, level: end && minutes > targetMinutes ? 'missed' : 'met' };
+  }
+  if (minutes >= targetMinutes * CRITICAL_RATIO) return { minutes, waiting, level: 'critical' };
+  if (minutes >= targetMinutes) return { minutes, waiting, level: 'breached' };
+  return { minutes, waiting, level: minutes >= targetMinutes * WARNING_RATIO ? 'warning' : 'ok' };
+};
+
+export const isSlaBreach = (state: SlaState) =>
+  state.level === 'breached' || state.level === 'critical' || state.level === 'missed';
+
+// "45m", "3h 10m", "2d 4h"
+export const formatSlaDuration = (minutes: number) => {
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`;
+  const hours = Math.floor(minutes / 60);
+  return `${Math.floor(hours / 24)}d${hours % 24 ? ` ${hours % 24}h` : ''}`;
+};
+
+export interface SlaDailyCompliance {
+  day: string; // "yyyy-MM-dd", unique across years
+  label: string; // "MMM dd"
+  total: number;
+  breached: number;
+  // Null on days with nothing to measure, so the chart shows a gap instead of 0%
+  compliance: number | null;
+}
+
+// Per-day share of records, by creation date, that got their first response within target
+export const getDailySlaCompliance = (
+  records: { entityType: AuditEntityType; record: SlaRecord }[],
+  rules: SlaRules,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): SlaDailyCompliance[] => {
+  const days = new Map<string, SlaDailyCompliance>();
+  eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) }).forEach((day) => {
+    const key = format(day, 'yyyy-MM-dd');
+    days.set(key, { day: key, label: format(day, 'MMM dd'), total: 0, breached: 0, compliance: null });
+  });
+
+  records.forEach(({ entityType, record }) => {
+    const state = getSlaState(record, entityType, rules, now);
+    // Still inside the target: too early to call either way
+    if (state.level === 'ok' || state.level === 'warning') return;
+    const day = days.get(format(new Date(record.createdAt), 'yyyy-MM-dd'));
+    if (!day) return;
+    day.total += 1;
+    if (isSlaBreach(state)) day.breached += 1;
+  });
+
+  return Array.from(days.values()).map((day) => ({
+    ...day,
+    compliance: day.total ? Math.round(((day.total - day.breached) / day.total) * 1000) / 10 : null,
+  }));
+};
@@ -0,0 +1,22 @@
+import { format, parse } from 'date-fns';
+
+// Time slots come from the backend as e.g. "09:00 AM"
+const SLOT_FORMAT = 'hh:mm a';
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Only slots earlier today have passed; dates are compared as yyyy-MM-dd strings
+export const isSlotPast = (date: string, slot: string) => {
+  if (date !== toDateKey(new Date())) return date < toDateKey(new Date());
+  const start = parse(slot, SLOT_FORMAT, new Date());
+  return !isNaN(start.getTime()) && start < new Date();
+};
+
+// Minutes past midnight; Infinity for labels that don't parse
+export const slotMinutes = (slot: string) => {
+  const time = parse(slot, SLOT_FORMAT, new Date(0));
+  return isNaN(time.getTime()) ? Infinity : time.getHours() * 60 + time.getMinutes();
+};
+
+// Chronological order for slot labels; unparseable ones sort last
+export const compareSlots = (a: string, b: string) => slotMinutes(a) - slotMinutes(b) || a.localeCompare(b);
@@ -0,0 +1,29 @@
+import { BookingStatus, CancellationReason, GeneralRequestStatus, InsuranceStatus } from './types';
+
+// Keyed records so the compiler flags any status added to or removed from the types
+const bookingStatusKeys: Record<BookingStatus, true> = {
+  pending: true, confirmed: true, completed: true, cancelled: true,
+  'not-interested': true, 'to-follow-up': true, 'cold-enq': true,
+};
+const insuranceStatusKeys: Record<InsuranceStatus, true> = {
+  new: true, contacted: true, completed: true, rejected: true,
+  'not-interested': true, 'to-follow-up': true, 'cold-enq': true, 'booking-confirmed': true,
+};
+const generalRequestStatusKeys: Record<GeneralRequestStatus, true> = {
+  new: true, 'in-progress': true, resolved: true,
+  'not-interested': true, 'to-follow-up': true, 'cold-enq': true, 'booking-confirmed': true,
+};
+
+export const cancellationReasonLabels: Record<CancellationReason, string> = {
+  price: 'Price too high',
+  'no-show': 'Customer no-show',
+  'went-elsewhere': 'Went elsewhere',
+  'schedule-conflict': 'Schedule conflict',
+  'no-longer-needed': 'No longer needed',
+  other: 'Other',
+};
+
+export const bookingStatusValues = Object.keys(bookingStatusKeys) as BookingStatus[];
+export const insuranceStatusValues = Object.keys(insuranceStatusKeys) as InsuranceStatus[];
+export const generalRequestStatusValues = Object.keys(generalRequestStatusKeys) as GeneralRequestStatus[];
+export const cancellationReasonValues = Object.keys(cancellationReasonLabels) as CancellationReason[];
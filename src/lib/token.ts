@@ -0,0 +1,40 @@
+// JWT claim decoding with no imports, so middleware and route handlers can use it
+// without pulling browser-side modules into their bundles
+
+export interface TokenClaims {
+  sub?: string;
+  username?: string;
+  email?: string;
+  role?: string;
+  roles?: string[];
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+// What the browser knows about the session; the token itself stays in the httpOnly cookie
+export interface SessionInfo {
+  claims: TokenClaims;
+  // Milliseconds since epoch, or null when the token carries no exp claim
+  expiresAt: number | null;
+}
+
+// Reads the JWT payload without verifying it; the backend remains the authority
+export const decodeToken = (token: string | null): TokenClaims | null => {
+  if (!token) return null;
+  try {
+    const payload = token.split('.')[1];
+    if (!payload) return null;
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(payload.length / 4) * 4, '=');
+    const json = decodeURIComponent(
+      atob(base64)
+        .split('')
+        .map((char) => '%' + char.charCodeAt(0).toString(16).padStart(2, '0'))
+        .join('')
+    );
+    return JSON.parse(json) as TokenClaims;
+  } catch (error) {
+    console.error('Failed to decode auth token:', error);
+    return null;
+  }
+};
@@ -1,6 +1,7 @@
-export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'not-interested' | 'to-follow-up' | 'cold-enq' | 'booking-confirmed';
+export type BookingStatus = 'pending' | 'confirmed' | 'completed' | 'cancelled' | 'not-interested' | 'to-follow-up' | 'cold-enq';
 export type InsuranceStatus = 'new' | 'contacted' | 'completed' | 'rejected' | 'not-interested' | 'to-follow-up' | 'cold-enq' | 'booking-confirmed';
 export type GeneralRequestStatus = 'new' | 'in-progress' | 'resolved' | 'not-interested' | 'to-follow-up' | 'cold-enq' | 'booking-confirmed';
+export type CancellationReason = 'price' | 'no-show' | 'went-elsewhere' | 'schedule-conflict' | 'no-longer-needed' | 'other';
 
 export interface CartItem {
   packageName: string;
@@ -8,11 +9,49 @@ export interface CartItem {
   quantity: number;
 }
 
+export interface StatusChange<TStatus extends string = string> {
+  from?: TStatus;
+  to: TStatus;
+  changedAt: string;
+  changedBy?: string;
+  // Given when the workflow requires one, e.g. for cancellations
+  reason?: string;
+  cancellationReason?: CancellationReason;
+}
+
+// A booking moved to another slot; the booking keeps every earlier move
+export interface Reschedule {
+  fromDate: string;
+  fromTime: string;
+  toDate: string;
+  toTime: string;
+  reason: string;
+  changedAt: string;
+  changedBy?: string;
+}
+
+// Set when a record moves to "to-follow-up"; kept afterwards so an undo restores it
+export interface FollowUp {
+  dueAt: string;
+  note?: string;
+  setBy?: string;
+  setAt?: string;
+}
+
+// The request a booking was converted from
+export interface BookingSource {
+  entityType: 'insurance_request' | 'general_request';
+  entityId: string;
+}
+
+export type FuelType = 'Petrol' | 'Diesel' | 'Electric' | 'CNG';
+
 export interface Booking {
   _id: string;
   brand: string;
   model: string;
-  fuelType: 'Petrol' | 'Diesel' | 'Electric' | 'CNG';
+  // One of fuelTypes, or the backend's own name for anything else
+  fuelType: string;
   year: string;
   phone: string;
   date: string;
@@ -23,31 +62,121 @@ export interface Booking {
   totalPrice: number;
   cartItems: CartItem[];
   status: BookingStatus;
+  statusHistory?: StatusChange<BookingStatus>[];
+  rescheduleHistory?: Reschedule[];
+  // Category picked when the booking was cancelled
+  cancellationReason?: CancellationReason;
+  followUp?: FollowUp;
+  // Username of the agent who owns the lead; null or missing when unassigned
+  assignedTo?: string | null;
+  // When the record first left its awaiting-contact status, stamped by the backend
+  firstContactAt?: string;
+  source?: BookingSource;
+  // Filled in by list and detail endpoints
+  noteCount?: number;
   createdAt: string;
 }
 
+// What the dashboard sends to create a booking; totalPrice is derived from the cart
+export type BookingInput = Pick<
+  Booking,
+  'brand' | 'model' | 'fuelType' | 'year' | 'phone' | 'alternatePhone' | 'address' | 'date' | 'time' | 'serviceCenter' | 'cartItems'
+> & {
+  source?: BookingSource;
+};
+
+export type ServicePackage = Omit<CartItem, 'quantity'>;
+
+export type VehicleModel = Pick<Booking, 'brand' | 'model'> & { fuelType: FuelType };
+
+// Choices offered when booking from the dashboard
+export interface BookingOptions {
+  vehicles: VehicleModel[];
+  packages: ServicePackage[];
+  timeSlots: string[];
+}
+
+// Bookings refer to a center by name, so renaming one also renames it on its bookings
+export interface ServiceCenter {
+  _id: string;
+  name: string;
+  address: string;
+  contactName?: string;
+  contactPhone: string;
+  // Operating hours as HH:mm; slots outside them can't be booked
+  opensAt: string;
+  closesAt: string;
+  // Bookings the center can take in a day, spread over its open slots
+  dailyCapacity: number;
+  fuelTypes: FuelType[];
+  // Inactive centers keep their bookings but take no new ones
+  active: boolean;
+}
+
+export type ServiceCenterInput = Omit<ServiceCenter, '_id'>;
+
+export interface SlotAvailability {
+  time: string;
+  booked: number;
+  capacity: number;
+}
+
+// How full each time slot is at one service center on one day
+export interface BookingAvailability {
+  date: string;
+  serviceCenter: string;
+  slots: SlotAvailability[];
+}
+
+// Bookings against the slots one service center can take on one day
+export interface DailyCapacity {
+  date: string;
+  serviceCenter: string;
+  booked: number;
+  capacity: number;
+}
+
+export interface RescheduleInput {
+  date: string;
+  time: string;
+  reason: string;
+}
+
 export interface InsuranceRequest {
   _id: string;
   brand: string;
   model: string;
-  fuelType: 'Petrol' | 'Diesel' | 'Electric' | 'CNG';
+  // One of fuelTypes, or the backend's own name for anything else
+  fuelType: string;
   year: string;
   phone: string;
   companyPolicyName: string;
   createdAt: string;
   type: 'insurance_request';
   status: InsuranceStatus;
+  followUp?: FollowUp;
+  assignedTo?: string | null;
+  firstContactAt?: string;
+  // Set once the request was converted into a booking
+  convertedBookingId?: string;
+  noteCount?: number;
 }
 
 export interface GeneralRequest {
   _id: string;
   brand: string;
   model: string;
-  fuelType: 'Petrol' | 'Diesel' | 'Electric' | 'CNG';
+  // One of fuelTypes, or the backend's own name for anything else
+  fuelType: string;
   year: string;
   phone: string;
   createdAt: string;
   status: GeneralRequestStatus;
+  followUp?: FollowUp;
+  assignedTo?: string | null;
+  firstContactAt?: string;
+  convertedBookingId?: string;
+  noteCount?: number;
 }
 
 export interface Customer {
@@ -58,4 +187,66 @@ export interface Customer {
   lastSeen: string;
   vehicles: { brand: string; model: string; year: string }[];
   address: string;
-}
\ No newline at end of file
+}
+
+// List shape returned by every /api collection route, whatever key the backend used
+export interface ListPage<T> {
+  items: T[];
+  total: number;
+}
+
+export type AuditEntityType = 'booking' | 'insurance_request' | 'general_request';
+
+export interface AuditLogEntry {
+  _id?: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  previousStatus: string;
+  newStatus: string;
+  reason?: string;
+  actor: string;
+  timestamp: string;
+}
+
+// A record currently waiting on a follow-up, as listed by /api/follow-ups
+export interface FollowUpItem {
+  entityType: AuditEntityType;
+  entityId: string;
+  brand: string;
+  model: string;
+  year: string;
+  phone: string;
+  status: string;
+  followUp: FollowUp;
+}
+
+export interface RecordNote {
+  _id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  body: string;
+  author: string;
+  // Usernames @mentioned in the body
+  mentions: string[];
+  pinned: boolean;
+  createdAt: string;
+}
+
+export interface AdminUser {
+  username: string;
+  role?: string;
+  // Inactive agents keep their existing leads but are skipped by round-robin
+  active?: boolean;
+}
+
+export interface SlaRule {
+  // First-response target measured from createdAt
+  targetMinutes: number;
+}
+
+export type SlaRules = Record<AuditEntityType, SlaRule>;
+
+// Auto-assignment of new and pending leads, configured on the backend
+export interface AssignmentSettings {
+  roundRobin: boolean;
+}
@@ -0,0 +1,39 @@
+export interface RejectedRecord {
+  entity: string;
+  id?: string;
+  issues: string[];
+  record: unknown;
+  rejectedAt: string;
+}
+
+// Keeps the report from growing without bound when a whole endpoint is broken
+const MAX_REJECTED_RECORDS = 200;
+
+let rejectedRecords: RejectedRecord[] = [];
+
+type ReportListener = (records: RejectedRecord[]) => void;
+const reportListeners = new Set<ReportListener>();
+
+export const onValidationReportChange = (listener: ReportListener) => {
+  reportListeners.add(listener);
+  return () => {
+    reportListeners.delete(listener);
+  };
+};
+
+const notifyReport = () => reportListeners.forEach((listener) => listener(rejectedRecords));
+
+export const getRejectedRecords = () => rejectedRecords;
+
+export const reportRejectedRecords = (records: Omit<RejectedRecord, 'rejectedAt'>[]) => {
+  if (!records.length) return;
+  console.warn(`Dropped ${records.length} invalid ${records[0].entity} record(s) from the API response`, records);
+  const rejectedAt = new Date().toISOString();
+  rejectedRecords = [...records.map((record) => ({ ...record, rejectedAt })), ...rejectedRecords].slice(0, MAX_REJECTED_RECORDS);
+  notifyReport();
+};
+
+export const clearRejectedRecords = () => {
+  rejectedRecords = [];
+  notifyReport();
+};
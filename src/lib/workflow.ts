@@ -0,0 +1,93 @@
+import { AuditEntityType, BookingStatus, GeneralRequestStatus, InsuranceStatus } from './types';
+
+// Extra input the backend needs before a record can enter a status. "booking" means
+// the status is only reached by converting the request into a booking;
+// "cancellationReason" is a category, with a free-text reason only needed for "other".
+export type TransitionField = 'reason' | 'followUp' | 'booking' | 'cancellationReason';
+
+export interface StatusRule<TStatus extends string> {
+  // Statuses a record may move to from this one; none makes the status terminal
+  next: readonly TStatus[];
+  requires?: readonly TransitionField[];
+}
+
+export type StatusWorkflow<TStatus extends string> = Record<TStatus, StatusRule<TStatus>>;
+
+export const bookingWorkflow: StatusWorkflow<BookingStatus> = {
+  pending: { next: ['confirmed', 'to-follow-up', 'cold-enq', 'not-interested', 'cancelled'] },
+  'to-follow-up': {
+    next: ['confirmed', 'cold-enq', 'not-interested', 'cancelled'],
+    requires: ['followUp'],
+  },
+  'cold-enq': { next: ['to-follow-up', 'confirmed', 'not-interested'] },
+  confirmed: { next: ['completed', 'to-follow-up', 'cancelled'] },
+  completed: { next: [] },
+  cancelled: { next: [], requires: ['cancellationReason'] },
+  'not-interested': { next: [], requires: ['reason'] },
+};
+
+export const insuranceWorkflow: StatusWorkflow<InsuranceStatus> = {
+  new: { next: ['contacted', 'to-follow-up', 'booking-confirmed', 'cold-enq', 'not-interested', 'rejected'] },
+  contacted: { next: ['to-follow-up', 'booking-confirmed', 'completed', 'cold-enq', 'not-interested', 'rejected'] },
+  'to-follow-up': {
+    next: ['contacted', 'booking-confirmed', 'completed', 'cold-enq', 'not-interested', 'rejected'],
+    requires: ['followUp'],
+  },
+  'cold-enq': { next: ['contacted', 'to-follow-up', 'booking-confirmed', 'not-interested'] },
+  'booking-confirmed': { next: [], requires: ['booking'] },
+  completed: { next: [] },
+  rejected: { next: [], requires: ['reason'] },
+  'not-interested': { next: [], requires: ['reason'] },
+};
+
+export const generalRequestWorkflow: StatusWorkflow<GeneralRequestStatus> = {
+  new: { next: ['in-progress', 'to-follow-up', 'booking-confirmed', 'cold-enq', 'not-interested'] },
+  'in-progress': { next: ['resolved', 'to-follow-up', 'booking-confirmed', 'cold-enq', 'not-interested'] },
+  'to-follow-up': {
+    next: ['in-progress', 'resolved', 'booking-confirmed', 'cold-enq', 'not-interested'],
+    requires: ['followUp'],
+  },
+  'cold-enq': { next: ['in-progress', 'to-follow-up', 'booking-confirmed', 'not-interested'] },
+  'booking-confirmed': { next: [], requires: ['booking'] },
+  resolved: { next: [] },
+  'not-interested': { next: [], requires: ['reason'] },
+};
+
+export const statusWorkflows: { [K in AuditEntityType]: StatusWorkflow<string> } = {
+  booking: bookingWorkflow,
+  insurance_request: insuranceWorkflow,
+  general_request: generalRequestWorkflow,
+};
+
+// Unknown statuses (e.g. from an older backend) get no way forward rather than every way
+export const getNextStatuses = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, from: TStatus): readonly TStatus[] =>
+  workflow[from]?.next ?? [];
+
+export const canTransition = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, from: TStatus, to: TStatus) =>
+  getNextStatuses(workflow, from).includes(to);
+
+export const isTerminalStatus = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, status: TStatus) =>
+  getNextStatuses(workflow, status).length === 0;
+
+export const getRequiredFields = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, to: TStatus): readonly TransitionField[] =>
+  workflow[to]?.requires ?? [];
+
+const isConversionOnly = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, status: TStatus) =>
+  getRequiredFields(workflow, status).includes('booking');
+
+// What a status picker offers: conversion-only statuses have their own flow
+export const getSelectableStatuses = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, from: TStatus) =>
+  getNextStatuses(workflow, from).filter((status) => !isConversionOnly(workflow, status));
+
+// Statuses every one of the records can move to, for bulk changes; records already there are skipped
+export const getSharedNextStatuses = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, from: readonly TStatus[]) =>
+  (Object.keys(workflow) as TStatus[]).filter(
+    (status) =>
+      !isConversionOnly(workflow, status) &&
+      from.some((current) => current !== status) &&
+      from.every((current) => current === status || canTransition(workflow, current, status))
+  );
+
+// Terminal statuses ask for confirmation even when they need no extra input
+export const needsTransitionPrompt = <TStatus extends string>(workflow: StatusWorkflow<TStatus>, to: TStatus) =>
+  getRequiredFields(workflow, to).length > 0 || isTerminalStatus(workflow, to);
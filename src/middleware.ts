@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, isSessionValid } from '@/lib/session';
+import { decodeToken } from '@/lib/token';
+import { getRoleFromClaims, getRoutePermission, hasPermission } from '@/lib/permissions';
+
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  const hasSession = isSessionValid(token);
+
+  if (pathname.startsWith('/dashboard') && !hasSession) {
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    const response = NextResponse.redirect(loginUrl);
+    // Drop an expired cookie so the login page doesn't bounce straight back
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  }
+
+  const permission = getRoutePermission(pathname);
+  if (hasSession && permission && !hasPermission(getRoleFromClaims(decodeToken(token)), permission)) {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  if (pathname === '/login' && hasSession) {
+    return NextResponse.redirect(new URL('/dashboard', request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/dashboard/:path*', '/login'],
+};